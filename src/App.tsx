@@ -6,12 +6,19 @@ import { TabsRouter } from './routes/TabsRouter';
 import { StudyPage } from './features/study/StudyPage';
 import { ListPage } from './features/flashcards/ListPage';
 import { SettingsPage } from './features/settings/SettingsPage';
+import { StatsPage } from './features/stats/StatsPage';
 import { AddCardPage } from './features/flashcards/AddCardPage';
 import { CardsFilterPage } from './features/flashcards/CardsFilterPage';
 import { LearningSessionPage } from './features/study/LearningSessionPage';
+import { TypedAnswerSessionPage } from './features/study/TypedAnswerSessionPage';
+import { QuizSessionPage } from './features/study/QuizSessionPage';
+import { ClozeSessionPage } from './features/study/ClozeSessionPage';
+import { AudioSessionPage } from './features/study/AudioSessionPage';
 import FlashcardImporter from './features/settings/FlashcardImporter';
 import { LanguageConversionPage } from './features/settings/LanguageConversionPage';
 import { DuplicatesPage } from './features/settings/DuplicatesPage';
+import { LeechesPage } from './features/settings/LeechesPage';
+import { TrashPage } from './features/settings/TrashPage';
 import './App.css';
 
 const router = createBrowserRouter(
@@ -28,6 +35,10 @@ const router = createBrowserRouter(
           path: '/list',
           element: <ListPage />,
         },
+        {
+          path: '/stats',
+          element: <StatsPage />,
+        },
         {
           path: '/settings',
           element: <SettingsPage />,
@@ -46,6 +57,22 @@ const router = createBrowserRouter(
       path: '/learning-session',
       element: <LearningSessionPage />,
     },
+    {
+      path: '/typed-session',
+      element: <TypedAnswerSessionPage />,
+    },
+    {
+      path: '/quiz-session',
+      element: <QuizSessionPage />,
+    },
+    {
+      path: '/cloze-session',
+      element: <ClozeSessionPage />,
+    },
+    {
+      path: '/audio-session',
+      element: <AudioSessionPage />,
+    },
     {
       path: '/import-csv',
       element: <FlashcardImporter />,
@@ -58,6 +85,14 @@ const router = createBrowserRouter(
       path: '/duplicates',
       element: <DuplicatesPage />,
     },
+    {
+      path: '/leeches',
+      element: <LeechesPage />,
+    },
+    {
+      path: '/trash',
+      element: <TrashPage />,
+    },
   ],
   {
     basename: '/lang-deck'
@@ -0,0 +1,64 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Table,
+  TableBody,
+  TableRow,
+  TableCell,
+  Box
+} from '@mui/material';
+import { KeyboardShortcut } from '../hooks/useKeyboardShortcuts';
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  shortcuts: KeyboardShortcut[];
+}
+
+/**
+ * Help overlay listing the keyboard shortcuts of a page
+ */
+export const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({ open, onClose, shortcuts }) => (
+  <Dialog
+    open={open}
+    onClose={onClose}
+    aria-labelledby="keyboard-shortcuts-title"
+  >
+    <DialogTitle id="keyboard-shortcuts-title">
+      Keyboard Shortcuts
+    </DialogTitle>
+    <DialogContent>
+      <Table size="small">
+        <TableBody>
+          {shortcuts.map(shortcut => (
+            <TableRow key={shortcut.label}>
+              <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                <Box
+                  component="kbd"
+                  sx={{
+                    px: 1,
+                    py: 0.5,
+                    border: 1,
+                    borderColor: 'divider',
+                    borderRadius: 1,
+                    fontFamily: 'monospace'
+                  }}
+                >
+                  {shortcut.label}
+                </Box>
+              </TableCell>
+              <TableCell>{shortcut.description}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </DialogContent>
+    <DialogActions>
+      <Button onClick={onClose}>Close</Button>
+    </DialogActions>
+  </Dialog>
+);
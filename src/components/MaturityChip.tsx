@@ -0,0 +1,32 @@
+import React from 'react';
+import { Chip } from '@mui/material';
+import { MaturityState, MATURITY_LABELS } from '../services/maturityService';
+
+// Color of each maturity state, from grey for new cards to green for mature ones
+export const MATURITY_COLORS: Record<MaturityState, string> = {
+  new: 'grey.400',
+  learning: 'warning.light',
+  young: 'info.light',
+  mature: 'success.main',
+  relapsed: 'error.light'
+};
+
+interface MaturityChipProps {
+  state: MaturityState;
+}
+
+/**
+ * Small badge showing the maturity of a card
+ */
+export const MaturityChip: React.FC<MaturityChipProps> = ({ state }) => (
+  <Chip
+    size="small"
+    label={MATURITY_LABELS[state]}
+    sx={{
+      height: 20,
+      fontSize: '0.7rem',
+      bgcolor: MATURITY_COLORS[state],
+      color: 'common.white'
+    }}
+  />
+);
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { IconButton, Tooltip } from '@mui/material';
+import { VolumeUp, VolumeOff } from '@mui/icons-material';
+import { isSpeechSupported, speak } from '../services/pronunciationService';
+
+interface SpeakButtonProps {
+  text: string;
+  language: string;       // Language name of the text, as stored on the cards
+  size?: 'small' | 'medium';
+  color?: string;
+}
+
+/**
+ * Speaker button pronouncing a word, hidden when the browser cannot speak.
+ * It has the "pressable" class so pressing it does not start a swipe on learning cards.
+ */
+export const SpeakButton: React.FC<SpeakButtonProps> = ({ text, language, size = 'small', color }) => {
+  const [speaking, setSpeaking] = useState(false);
+  const [unavailable, setUnavailable] = useState(false);
+
+  if (!isSpeechSupported()) {
+    return null;
+  }
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Do not flip or open the card
+    e.stopPropagation();
+    if (speaking) return;
+
+    setSpeaking(true);
+    const spoken = await speak(text, language);
+    setSpeaking(false);
+    setUnavailable(!spoken);
+  };
+
+  return (
+    <Tooltip title={unavailable ? `No pronunciation available for ${language}` : `Listen (${language})`}>
+      <IconButton
+        className="pressable"
+        size={size}
+        onClick={handleClick}
+        onTouchEnd={(e) => e.stopPropagation()}
+        aria-label={`Listen to ${text}`}
+        sx={{ color: unavailable ? 'text.disabled' : color }}
+      >
+        {unavailable ? <VolumeOff fontSize="inherit" /> : <VolumeUp fontSize="inherit" />}
+      </IconButton>
+    </Tooltip>
+  );
+};
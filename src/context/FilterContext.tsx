@@ -1,11 +1,14 @@
 import React, { createContext, useContext, useState, useCallback, useMemo } from 'react';
-import { IFlashCard } from '../services/cardService';
+import { IFlashCard, StudyDirection, isCardStudiable } from '../services/cardService';
+import { MaturityState, getCardMaturityState } from '../services/maturityService';
 
 export interface FilterCriteria {
   tags?: string[];
   word?: string;
   context?: string;
-  performanceFilter?: 'struggling' | 'mastered' | 'all';
+  maturityFilter?: MaturityState | 'all';
+  direction?: StudyDirection; // Direction being studied, the maturity is judged in both directions otherwise
+  statusFilter?: 'active' | 'inactive' | 'all'; // Studiable cards, suspended and buried cards, or both. Active by default
 }
 
 interface FilterContextType {
@@ -15,6 +18,63 @@ interface FilterContextType {
   applyFilter: (cards: IFlashCard[]) => IFlashCard[];
 }
 
+/**
+ * Keeps the cards matching filter criteria
+ * @param cards The cards to filter
+ * @param criteria The criteria the cards must match
+ * @returns The matching cards, in the same order
+ */
+export function filterCards(cards: IFlashCard[], criteria: FilterCriteria): IFlashCard[] {
+  return cards.filter(card => {
+    console.debug('card', card);
+    // Filter by status: suspended and buried cards are left out unless asked for
+    const statusFilter = criteria.statusFilter ?? 'active';
+    if (statusFilter !== 'all' && isCardStudiable(card) !== (statusFilter === 'active')) {
+      return false;
+    }
+
+    // Filter by maturity
+    if (criteria.maturityFilter && criteria.maturityFilter !== 'all') {
+      if (getCardMaturityState(card, criteria.direction) !== criteria.maturityFilter) {
+        return false;
+      }
+    }
+
+    // Filter by tags
+    if (criteria.tags?.length) {
+      if (!card.tags?.some(tag => criteria.tags?.includes(tag))) {
+        return false;
+      }
+    }
+
+    // Filter by word
+    if (criteria.word) {
+      const searchTerm = criteria.word.toLowerCase();
+      if (!card.known.toLowerCase().includes(searchTerm) &&
+        !card.learning.toLowerCase().includes(searchTerm)) {
+        return false;
+      }
+    }
+
+    // Filter by context
+    if (criteria.context) {
+      const searchTerm = criteria.context.toLowerCase();
+      const hasMatchInKnownContext = card.contextKnown?.some(ctx =>
+        ctx.toLowerCase().includes(searchTerm)
+      );
+      const hasMatchInLearningContext = card.contextLearning?.some(ctx =>
+        ctx.toLowerCase().includes(searchTerm)
+      );
+
+      if (!hasMatchInKnownContext && !hasMatchInLearningContext) {
+        return false;
+      }
+    }
+
+    return true;
+  });
+}
+
 const FilterContext = createContext<FilterContextType | undefined>(undefined);
 
 export function FilterProvider({ children }: { children: React.ReactNode }) {
@@ -28,61 +88,10 @@ export function FilterProvider({ children }: { children: React.ReactNode }) {
     setCurrentFilter({});
   }, []);
 
-  const applyFilter = useCallback((cards: IFlashCard[]): IFlashCard[] => {
-    return cards.filter(card => {
-      console.debug('card', card);
-      // Filter by performance
-      if (currentFilter.performanceFilter && currentFilter.performanceFilter !== 'all') {
-        const strugglingCount = card.wrongCount + (card.revisitCount || 0);
-        const ratio = card.correctCount === 0 ?
-          strugglingCount :
-          strugglingCount / card.correctCount;
-
-        console.debug('Performance ratio:', ratio);
-        if (currentFilter.performanceFilter === 'struggling' && ratio < 1) {
-          console.debug('Struggling filter applied');
-          return false;
-        }
-        if (currentFilter.performanceFilter === 'mastered' && ratio >= 1) {
-          console.debug('Mastered filter applied');
-          return false;
-        }
-      }
-
-      // Filter by tags
-      if (currentFilter.tags?.length) {
-        if (!card.tags?.some(tag => currentFilter.tags?.includes(tag))) {
-          return false;
-        }
-      }
-
-      // Filter by word
-      if (currentFilter.word) {
-        const searchTerm = currentFilter.word.toLowerCase();
-        if (!card.known.toLowerCase().includes(searchTerm) &&
-          !card.learning.toLowerCase().includes(searchTerm)) {
-          return false;
-        }
-      }
-
-      // Filter by context
-      if (currentFilter.context) {
-        const searchTerm = currentFilter.context.toLowerCase();
-        const hasMatchInKnownContext = card.contextKnown?.some(ctx =>
-          ctx.toLowerCase().includes(searchTerm)
-        );
-        const hasMatchInLearningContext = card.contextLearning?.some(ctx =>
-          ctx.toLowerCase().includes(searchTerm)
-        );
-
-        if (!hasMatchInKnownContext && !hasMatchInLearningContext) {
-          return false;
-        }
-      }
-
-      return true;
-    });
-  }, [currentFilter]); // Only recreate when currentFilter changes
+  const applyFilter = useCallback(
+    (cards: IFlashCard[]): IFlashCard[] => filterCards(cards, currentFilter),
+    [currentFilter] // Only recreate when currentFilter changes
+  );
 
   const value = useMemo(() => ({
     currentFilter,
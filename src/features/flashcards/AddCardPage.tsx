@@ -21,8 +21,8 @@ import {
 } from '@mui/material';
 import { Add, Delete, ArrowBack, Save, Close } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router';
-import { addCard, updateCard, generateId, IFlashCard } from '../../services/cardService';
-import { getOrCreateSettings, Settings } from '../../services/settingsService';
+import { addCard, updateCard, generateId, getNewCardDefaults, IFlashCard } from '../../services/cardService';
+import { getOrCreateSettings, Settings, DEFAULT_SETTINGS } from '../../services/settingsService';
 import useColorScheme from '../../hooks/useColorScheme';
 
 interface LocationState {
@@ -48,10 +48,7 @@ export const AddCardPage: React.FC = () => {
   const colorScheme = useColorScheme();
   
   // Language settings state
-  const [settings, setSettings] = useState<Settings>({
-    knownLanguage: 'Français',
-    learningLanguage: 'Anglais'
-  });
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
   const [loading, setLoading] = useState(true);
   
   // Form state
@@ -196,6 +193,8 @@ export const AddCardPage: React.FC = () => {
       setIsSubmitting(true);
       
       const cardData: IFlashCard = {
+        // Keep statistics and scheduling of edited cards, start fresh for new ones
+        ...(isEditMode ? editCard! : getNewCardDefaults()),
         id: isEditMode ? editCard!.id : generateId(),
         known: knownLanguageWord.trim(),
         learning: learningLanguageWord.trim(),
@@ -204,9 +203,6 @@ export const AddCardPage: React.FC = () => {
         contextKnown: knownLanguageContexts.filter(ctx => ctx.trim()),
         contextLearning: learningLanguageContexts.filter(ctx => ctx.trim()),
         tags: tags.length > 0 ? tags : undefined,
-        correctCount: isEditMode ? editCard!.correctCount : 0,
-        wrongCount: isEditMode ? editCard!.wrongCount : 0,
-        revisitCount: isEditMode ? editCard!.revisitCount : 0,
         createdAt: isEditMode ? editCard!.createdAt : new Date().toISOString(),
         updatedAt: new Date().toISOString()
       };
@@ -15,8 +15,9 @@ import {
 import { ArrowBack } from '@mui/icons-material';
 import { useNavigate } from 'react-router';
 import { getCards } from '../../services/cardService';
-import { useFilter } from '../../context/FilterContext';
+import { useFilter, FilterCriteria } from '../../context/FilterContext';
 import useColorScheme from '../../hooks/useColorScheme';
+import { MATURITY_LABELS, MATURITY_STATES } from '../../services/maturityService';
 
 export const CardsFilterPage: React.FC = () => {
   const navigate = useNavigate();
@@ -28,8 +29,11 @@ export const CardsFilterPage: React.FC = () => {
   const [selectedTags, setSelectedTags] = useState<string[]>(currentFilter.tags || []);
   const [word, setWord] = useState(currentFilter.word || '');
   const [context, setContext] = useState(currentFilter.context || '');
-  const [performanceFilter, setPerformanceFilter] = useState<'struggling' | 'mastered' | 'all'>(
-    currentFilter.performanceFilter || 'all'
+  const [maturityFilter, setMaturityFilter] = useState<NonNullable<FilterCriteria['maturityFilter']>>(
+    currentFilter.maturityFilter || 'all'
+  );
+  const [statusFilter, setStatusFilter] = useState<NonNullable<FilterCriteria['statusFilter']>>(
+    currentFilter.statusFilter || 'active'
   );
   
   // Load all available tags when component mounts
@@ -50,7 +54,8 @@ export const CardsFilterPage: React.FC = () => {
     setSelectedTags([]);
     setWord('');
     setContext('');
-    setPerformanceFilter('all');
+    setMaturityFilter('all');
+    setStatusFilter('active');
     clearFilter();
     navigate(-1);
   };
@@ -60,7 +65,8 @@ export const CardsFilterPage: React.FC = () => {
       tags: selectedTags.length > 0 ? selectedTags : undefined,
       word: word.trim() || undefined,
       context: context.trim() || undefined,
-      performanceFilter
+      maturityFilter,
+      statusFilter: statusFilter !== 'active' ? statusFilter : undefined
     });
     navigate(-1);
   };
@@ -78,30 +84,58 @@ export const CardsFilterPage: React.FC = () => {
 
       <Paper sx={{ p: 3, borderRadius: 2 }}>
         <Stack spacing={3}>
-          {/* Performance filter */}
+          {/* Maturity filter */}
           <Box>
             <Typography 
               variant="subtitle2" 
               color={colorScheme.tagText}
               sx={{ fontWeight: 600, mb: 1 }}
             >
-              PERFORMANCE FILTER
+              MATURITY
             </Typography>
             <ToggleButtonGroup
-              value={performanceFilter}
+              value={maturityFilter}
               exclusive
-              onChange={(_, value) => value && setPerformanceFilter(value)}
+              onChange={(_, value) => value && setMaturityFilter(value)}
               fullWidth
               color="primary"
+              size="small"
             >
               <ToggleButton value="all">
                 All Cards
               </ToggleButton>
-              <ToggleButton value="struggling">
-                Need Practice
+              {MATURITY_STATES.map(state => (
+                <ToggleButton key={state} value={state}>
+                  {MATURITY_LABELS[state]}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          </Box>
+
+          {/* Status filter */}
+          <Box>
+            <Typography 
+              variant="subtitle2" 
+              color={colorScheme.tagText}
+              sx={{ fontWeight: 600, mb: 1 }}
+            >
+              STATUS
+            </Typography>
+            <ToggleButtonGroup
+              value={statusFilter}
+              exclusive
+              onChange={(_, value) => value && setStatusFilter(value)}
+              fullWidth
+              color="primary"
+            >
+              <ToggleButton value="active">
+                Active
+              </ToggleButton>
+              <ToggleButton value="inactive">
+                Suspended & Buried
               </ToggleButton>
-              <ToggleButton value="mastered">
-                Well Learned
+              <ToggleButton value="all">
+                All
               </ToggleButton>
             </ToggleButtonGroup>
           </Box>
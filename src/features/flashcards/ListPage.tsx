@@ -16,14 +16,28 @@ import {
   DialogContent,
   DialogActions,
   Button,
-  Badge
+  Badge,
+  Menu,
+  MenuItem,
+  Tooltip
 } from '@mui/material';
-import { Add, Delete, Edit, FilterList } from '@mui/icons-material';
+import { Add, Delete, Edit, FilterList, Block, Bedtime, PlayArrow, MoreVert } from '@mui/icons-material';
 import { useNavigate } from 'react-router';
-import { getCards, IFlashCard as IFlashCard, deleteCard } from '../../services/cardService';
-import { getOrCreateSettings, Settings } from '../../services/settingsService';
+import {
+  getCards,
+  IFlashCard as IFlashCard,
+  deleteCard,
+  setCardsStatus,
+  getBuriedUntil,
+  isCardStudiable,
+  CardStatus
+} from '../../services/cardService';
+import { getOrCreateSettings, DEFAULT_SETTINGS, Settings } from '../../services/settingsService';
 import { useFilter } from '../../context/FilterContext';
 import useColorScheme from '../../hooks/useColorScheme';
+import { SpeakButton } from '../../components/SpeakButton';
+import { MaturityChip } from '../../components/MaturityChip';
+import { getCardMaturityState } from '../../services/maturityService';
 
 export const ListPage: React.FC = () => {
   const navigate = useNavigate();
@@ -36,6 +50,8 @@ export const ListPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [cardToDelete, setCardToDelete] = useState<IFlashCard | null>(null);
   const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [bulkMenuAnchor, setBulkMenuAnchor] = useState<HTMLElement | null>(null);
+  const [confirmBulkSuspend, setConfirmBulkSuspend] = useState(false);
 
   // Load settings and cards when component mounts
   useEffect(() => {
@@ -113,6 +129,35 @@ export const ListPage: React.FC = () => {
     navigate('/filter');
   };
 
+  // Suspend, bury or reactivate cards, then drop those no longer matching the filter
+  const handleStatusChange = async (cardIds: string[], status: CardStatus) => {
+    try {
+      const buriedUntil = status === 'buried'
+        ? getBuriedUntil((settings ?? DEFAULT_SETTINGS).dayRolloverHour)
+        : undefined;
+      const updatedCards = await setCardsStatus(cardIds, status, buriedUntil);
+      const updatedById = new Map(updatedCards.map(card => [card.id, card]));
+      const mergeUpdates = (list: IFlashCard[]) => list.map(card => updatedById.get(card.id) ?? card);
+      setCards(prev => mergeUpdates(prev));
+      setFilteredCards(prev => applyFilter(mergeUpdates(prev)));
+      setError(null);
+    } catch (err) {
+      console.error('Error changing card status:', err);
+      setError('Failed to change card status. Please try again.');
+    }
+  };
+
+  // Bulk actions apply to all the cards shown with the current filter
+  const handleBulkStatusChange = (status: CardStatus) => {
+    setBulkMenuAnchor(null);
+    handleStatusChange(filteredCards.map(card => card.id), status);
+  };
+
+  const handleConfirmBulkSuspend = () => {
+    setConfirmBulkSuspend(false);
+    handleBulkStatusChange('suspended');
+  };
+
   if (loading) {
     return (
       <Box sx={{ 
@@ -149,19 +194,70 @@ export const ListPage: React.FC = () => {
         <Typography variant="h5" component="h1" sx={{ fontWeight: 'bold' }}>
           My Flashcards
         </Typography>
-        <IconButton 
-          onClick={handleFilterClick}
-          sx={{ mr: 1 }}
-        >
-          <Badge 
-            color="primary" 
-            variant="dot" 
-            invisible={!Object.keys(currentFilter).length}
+        <Box>
+          <IconButton 
+            onClick={handleFilterClick}
+            sx={{ mr: 1 }}
+          >
+            <Badge 
+              color="primary" 
+              variant="dot" 
+              invisible={!Object.keys(currentFilter).length}
+            >
+              <FilterList />
+            </Badge>
+          </IconButton>
+          <IconButton
+            onClick={(e) => setBulkMenuAnchor(e.currentTarget)}
+            disabled={filteredCards.length === 0}
+            aria-label="actions on the cards shown"
           >
-            <FilterList />
-          </Badge>
-        </IconButton>
+            <MoreVert />
+          </IconButton>
+        </Box>
       </Box>
+
+      {/* Bulk actions */}
+      <Menu
+        anchorEl={bulkMenuAnchor}
+        open={bulkMenuAnchor !== null}
+        onClose={() => setBulkMenuAnchor(null)}
+      >
+        <MenuItem onClick={() => {
+          setBulkMenuAnchor(null);
+          setConfirmBulkSuspend(true);
+        }}>
+          Suspend the {filteredCards.length} cards shown
+        </MenuItem>
+        <MenuItem onClick={() => handleBulkStatusChange('buried')}>
+          Bury the {filteredCards.length} cards shown until tomorrow
+        </MenuItem>
+        <MenuItem onClick={() => handleBulkStatusChange('active')}>
+          Reactivate the {filteredCards.length} cards shown
+        </MenuItem>
+      </Menu>
+
+      {/* Bulk suspend confirmation */}
+      <Dialog
+        open={confirmBulkSuspend}
+        onClose={() => setConfirmBulkSuspend(false)}
+        aria-labelledby="bulk-suspend-dialog-title"
+      >
+        <DialogTitle id="bulk-suspend-dialog-title">
+          Suspend Flashcards
+        </DialogTitle>
+        <DialogContent>
+          <Typography>
+            Suspend the {filteredCards.length} cards shown? They will not come up in study sessions until you reactivate them.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmBulkSuspend(false)}>Cancel</Button>
+          <Button onClick={handleConfirmBulkSuspend} color="warning" variant="contained">
+            Suspend
+          </Button>
+        </DialogActions>
+      </Dialog>
       
       {settings && (
         <Typography variant="subtitle1" color="text.secondary" sx={{ mb: 2 }}>
@@ -180,7 +276,7 @@ export const ListPage: React.FC = () => {
         </DialogTitle>
         <DialogContent>
           <Typography>
-            Are you sure you want to delete this flashcard?
+            Move this flashcard to the trash? You can restore it from the Settings tab.
           </Typography>
           {cardToDelete && (
             <Box sx={{ mt: 2, p: 2, bgcolor: 'background.paper', borderRadius: 1 }}>
@@ -246,18 +342,20 @@ export const ListPage: React.FC = () => {
                   <Box sx={{ flex: 1 }}>
                     {/* Learning Word Section */}
                     <Box sx={{ mb: 2 }}>
-                      <Typography 
-                        variant="h6" 
-                        component="div" 
-                        gutterBottom
-                        sx={{ 
-                          color: colorScheme.learningWord,
-                          fontWeight: 600,
-                          fontSize: '1.25rem'
-                        }}
-                      >
-                        {card.learning}
-                      </Typography>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 0.5 }}>
+                        <Typography 
+                          variant="h6" 
+                          component="div" 
+                          sx={{ 
+                            color: colorScheme.learningWord,
+                            fontWeight: 600,
+                            fontSize: '1.25rem'
+                          }}
+                        >
+                          {card.learning}
+                        </Typography>
+                        <SpeakButton text={card.learning} language={card.learningLanguage} color={colorScheme.learningWord} />
+                      </Box>
                       
                       {/* Learning Context right under learning word */}
                       {(card.contextLearning && card.contextLearning.length > 0) && (
@@ -276,10 +374,43 @@ export const ListPage: React.FC = () => {
                     </Box>
                   </Box>
                   <Box sx={{ display: 'flex' }}>
+                    {isCardStudiable(card) ? (
+                      <>
+                        <Tooltip title="Bury until tomorrow">
+                          <IconButton
+                            onClick={() => handleStatusChange([card.id], 'buried')}
+                            size="small"
+                            sx={{ color: 'text.secondary' }}
+                          >
+                            <Bedtime fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Suspend">
+                          <IconButton
+                            onClick={() => handleStatusChange([card.id], 'suspended')}
+                            size="small"
+                            sx={{ ml: 1, color: 'text.secondary' }}
+                          >
+                            <Block fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </>
+                    ) : (
+                      <Tooltip title="Reactivate">
+                        <IconButton
+                          onClick={() => handleStatusChange([card.id], 'active')}
+                          size="small"
+                          sx={{ color: 'text.secondary' }}
+                        >
+                          <PlayArrow fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
                     <IconButton
                       onClick={() => handleEditClick(card)}
                       size="small"
                       sx={{ 
+                        ml: 1,
                         color: 'text.secondary',
                         '&:hover': {
                           color: 'primary.main'
@@ -304,19 +435,37 @@ export const ListPage: React.FC = () => {
                   </Box>
                 </Box>
                 
+                {/* Maturity, and status of suspended and buried cards */}
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+                  <MaturityChip state={getCardMaturityState(card)} />
+                  {!isCardStudiable(card) && (
+                    <Chip
+                      size="small"
+                      variant="outlined"
+                      color="secondary"
+                      label={card.status === 'buried' && card.buriedUntil
+                        ? `Buried until ${new Date(card.buriedUntil).toLocaleDateString()}`
+                        : 'Suspended'}
+                    />
+                  )}
+                </Box>
+
                 <Divider sx={{ my: 1.5 }} />
                 
                 {/* Known Word Section */}
                 <Box sx={{ mt: 2 }}>
-                  <Typography 
-                    sx={{ 
-                      color: colorScheme.knownWord,
-                      fontSize: '1.1rem',
-                      fontWeight: 500
-                    }}
-                  >
-                    {card.known}
-                  </Typography>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                    <Typography 
+                      sx={{ 
+                        color: colorScheme.knownWord,
+                        fontSize: '1.1rem',
+                        fontWeight: 500
+                      }}
+                    >
+                      {card.known}
+                    </Typography>
+                    <SpeakButton text={card.known} language={card.knownLanguage} color={colorScheme.knownWord} />
+                  </Box>
                   
                   {/* Known Context right under known word */}
                   {(card.contextKnown && card.contextKnown.length > 0) && (
@@ -221,7 +221,7 @@ export const DuplicatesPage: React.FC = () => {
                     <Typography variant="subtitle2" sx={{ color: 'text.secondary', mb: 1 }}>
                       Card {index + 1}:
                     </Typography>
-                    <Tooltip title="Delete this card">
+                    <Tooltip title="Move this card to the trash">
                       <IconButton 
                         size="small"
                         onClick={() => handleDeleteCard(group.key, card.id)}
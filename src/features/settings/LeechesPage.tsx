@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Alert,
+  Divider,
+  IconButton,
+  Button,
+  Stack
+} from '@mui/material';
+import { ArrowBack, Edit, Block, PlayArrow, Check, TipsAndUpdates } from '@mui/icons-material';
+import { useNavigate } from 'react-router';
+import { IFlashCard, isCardStudiable, setCardsStatus } from '../../services/cardService';
+import { Leech, getLeeches, detectLeeches, dismissLeech } from '../../services/leechService';
+import { getOrCreateSettings } from '../../services/settingsService';
+
+export const LeechesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [leeches, setLeeches] = useState<Leech[]>([]);
+  const [threshold, setThreshold] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadLeeches = async () => {
+      try {
+        setLoading(true);
+        const settings = await getOrCreateSettings();
+        setThreshold(settings.leechThreshold);
+        await detectLeeches(settings);
+        setLeeches(await getLeeches());
+        setError(null);
+      } catch (err) {
+        console.error('Error loading leeches:', err);
+        setError('Failed to load leech cards');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLeeches();
+  }, []);
+
+  const updateLeechCard = (card: IFlashCard) => {
+    setLeeches(prev => prev.map(leech => leech.card.id === card.id ? { ...leech, card } : leech));
+  };
+
+  const handleToggleSuspended = async (card: IFlashCard) => {
+    try {
+      const [updatedCard] = await setCardsStatus([card.id], isCardStudiable(card) ? 'suspended' : 'active');
+      updateLeechCard(updatedCard);
+    } catch (err) {
+      console.error('Error changing card status:', err);
+      setError('Failed to change card status. Please try again.');
+    }
+  };
+
+  const handleDismiss = async (card: IFlashCard) => {
+    try {
+      await dismissLeech(card);
+      setLeeches(prev => prev.filter(leech => leech.card.id !== card.id));
+    } catch (err) {
+      console.error('Error dismissing leech:', err);
+      setError('Failed to dismiss leech. Please try again.');
+    }
+  };
+
+  const handleEdit = (card: IFlashCard) => {
+    navigate('/add', {
+      state: {
+        mode: 'edit',
+        card
+      }
+    });
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 2, maxWidth: 800, mx: 'auto', mb: 8 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 3 }}>
+        <IconButton onClick={() => navigate('/settings')} sx={{ mr: 1 }}>
+          <ArrowBack />
+        </IconButton>
+        <Typography variant="h5" component="h1">
+          Leech Cards
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>{error}</Alert>
+      )}
+
+      <Typography variant="subtitle1" sx={{ mb: 1 }}>
+        Found {leeches.length} cards that keep failing
+      </Typography>
+      {threshold !== null && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          A card becomes a leech after {threshold} failures, counting a revision as half a failure.
+          It is tagged "leech" until you dismiss it.
+        </Typography>
+      )}
+
+      {leeches.map(({ card, failures, consecutiveFailures, suggestions }) => (
+        <Card key={card.id} sx={{ mb: 2 }}>
+          <CardContent>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 1 }}>
+              <Box>
+                <Typography variant="h6" sx={{ color: 'primary.main' }}>
+                  {card.learning}
+                </Typography>
+                <Typography variant="body1">
+                  {card.known}
+                </Typography>
+              </Box>
+              {!isCardStudiable(card) && (
+                <Chip size="small" variant="outlined" color="secondary" label={card.status === 'buried' ? 'Buried' : 'Suspended'} />
+              )}
+            </Box>
+
+            <Stack direction="row" spacing={1} sx={{ mt: 2, flexWrap: 'wrap' }}>
+              <Chip size="small" color="error" variant="outlined" label={`${failures} failures`} />
+              <Chip size="small" color="warning" variant="outlined" label={`${consecutiveFailures} since last success`} />
+              <Chip size="small" color="success" variant="outlined" label={`${card.correctCount} correct`} />
+            </Stack>
+
+            <Divider sx={{ my: 2 }} />
+
+            <Stack spacing={0.5}>
+              {suggestions.map(suggestion => (
+                <Box key={suggestion} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <TipsAndUpdates fontSize="small" color="action" />
+                  <Typography variant="body2" color="text.secondary">
+                    {suggestion}
+                  </Typography>
+                </Box>
+              ))}
+            </Stack>
+
+            <Stack direction="row" spacing={1} sx={{ mt: 2, flexWrap: 'wrap' }}>
+              <Button size="small" variant="outlined" startIcon={<Edit />} onClick={() => handleEdit(card)}>
+                Edit
+              </Button>
+              <Button
+                size="small"
+                variant="outlined"
+                color="secondary"
+                startIcon={isCardStudiable(card) ? <Block /> : <PlayArrow />}
+                onClick={() => handleToggleSuspended(card)}
+              >
+                {isCardStudiable(card) ? 'Suspend' : 'Reactivate'}
+              </Button>
+              <Button size="small" startIcon={<Check />} onClick={() => handleDismiss(card)}>
+                Not a leech
+              </Button>
+            </Stack>
+          </CardContent>
+        </Card>
+      ))}
+    </Box>
+  );
+};
@@ -13,12 +13,25 @@ import {
   Alert,
   Stack,
   Divider,
-  FormHelperText
+  FormHelperText,
+  FormControlLabel,
+  Switch,
+  TextField
 } from '@mui/material';
 import papa from 'papaparse';
-import { saveSettings, getOrCreateSettings } from '../../services/settingsService';
+import { updateSettings, getOrCreateSettings, DEFAULT_SETTINGS, Settings } from '../../services/settingsService';
 import { ICsvFlashcardImportRow } from '../../types/csvImport';
-import { getCards, IFlashCard } from '../../services/cardService';
+import { getCards, IFlashCard, rescheduleCards, SwipeDirection } from '../../services/cardService';
+import { SCHEDULERS, SchedulerAlgorithm, getScheduler } from '../../services/schedulerService';
+import { getConsecutiveFailureThreshold } from '../../services/leechService';
+import { DailyGoalType, DAILY_GOAL_LABELS } from '../../services/goalService';
+import {
+  SwipeAction,
+  SWIPE_ACTIONS,
+  SWIPE_DIRECTIONS,
+  SWIPE_ACTION_LABELS
+} from '../../services/sessionService';
+import { SpeechVoice, getVoices, getVoicesForLanguage, isSpeechSupported } from '../../services/pronunciationService';
 
 // Limited list of available languages
 const LANGUAGES = [
@@ -27,11 +40,56 @@ const LANGUAGES = [
   'Espagnol',
 ];
 
+const DIRECTION_LABELS: Record<SwipeDirection, string> = {
+  left: 'Swipe left',
+  right: 'Swipe right',
+  up: 'Swipe up',
+  down: 'Swipe down'
+};
+
+// Days deleted cards are kept in the trash, 0 to keep them until the trash is emptied
+const TRASH_RETENTIONS = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: 'Until emptied', days: 0 }
+];
+
+// Distance a card must be dragged to be swiped, from the most to the least sensitive
+const SWIPE_SENSITIVITIES = [
+  { label: 'High', threshold: 60 },
+  { label: 'Medium', threshold: 100 },
+  { label: 'Low', threshold: 150 }
+];
+
 export const SettingsPage: React.FC = () => {
   const navigate = useNavigate();
   // State for settings
   const [knownLanguage, setKnownLanguage] = useState('');
   const [learningLanguage, setLearningLanguage] = useState('');
+  const [schedulerAlgorithm, setSchedulerAlgorithm] = useState<SchedulerAlgorithm>('sm2');
+  const [savedSchedulerAlgorithm, setSavedSchedulerAlgorithm] = useState<SchedulerAlgorithm>('sm2');
+  const [relearnWrongCards, setRelearnWrongCards] = useState(true);
+  const [relearningDelay, setRelearningDelay] = useState(3);
+  const [relearnRevisitCards, setRelearnRevisitCards] = useState(true);
+  const [voices, setVoices] = useState<Record<string, string>>({});
+  const [autoPlayPronunciation, setAutoPlayPronunciation] = useState(false);
+  const [availableVoices, setAvailableVoices] = useState<SpeechVoice[]>([]);
+  const [swipeActions, setSwipeActions] = useState<Settings['swipeActions']>(DEFAULT_SETTINGS.swipeActions);
+  const [mirrorSwipes, setMirrorSwipes] = useState(false);
+  const [swipeThreshold, setSwipeThreshold] = useState(DEFAULT_SETTINGS.swipeThreshold);
+  const [stackDepth, setStackDepth] = useState(DEFAULT_SETTINGS.stackDepth);
+  const [accessibleMode, setAccessibleMode] = useState(false);
+  const [reduceMotion, setReduceMotion] = useState(false);
+  const [leechThreshold, setLeechThreshold] = useState(DEFAULT_SETTINGS.leechThreshold);
+  const [suspendLeeches, setSuspendLeeches] = useState(false);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_SETTINGS.trashRetentionDays);
+  const [dailyGoalType, setDailyGoalType] = useState<DailyGoalType>(DEFAULT_SETTINGS.dailyGoalType);
+  const [dailyGoal, setDailyGoal] = useState(DEFAULT_SETTINGS.dailyGoal);
+  const [dayRolloverHour, setDayRolloverHour] = useState(DEFAULT_SETTINGS.dayRolloverHour);
+  const [newCardsPerDay, setNewCardsPerDay] = useState(DEFAULT_SETTINGS.newCardsPerDay);
+  const [reviewsPerDay, setReviewsPerDay] = useState(DEFAULT_SETTINGS.reviewsPerDay);
+  const [maxSessionSize, setMaxSessionSize] = useState(DEFAULT_SETTINGS.maxSessionSize);
   
   // Snackbar state
   const [snackbarOpen, setSnackbarOpen] = useState(false);
@@ -45,12 +103,39 @@ export const SettingsPage: React.FC = () => {
         const settings = await getOrCreateSettings();
         setKnownLanguage(settings.knownLanguage);
         setLearningLanguage(settings.learningLanguage);
+        setSchedulerAlgorithm(settings.schedulerAlgorithm);
+        setSavedSchedulerAlgorithm(settings.schedulerAlgorithm);
+        setRelearnWrongCards(settings.relearnWrongCards);
+        setRelearningDelay(settings.relearningDelay);
+        setRelearnRevisitCards(settings.relearnRevisitCards);
+        setVoices(settings.voices);
+        setAutoPlayPronunciation(settings.autoPlayPronunciation);
+        setSwipeActions(settings.swipeActions);
+        setMirrorSwipes(settings.mirrorSwipes);
+        setSwipeThreshold(settings.swipeThreshold);
+        setStackDepth(settings.stackDepth);
+        setAccessibleMode(settings.accessibleMode);
+        setReduceMotion(settings.reduceMotion);
+        setLeechThreshold(settings.leechThreshold);
+        setSuspendLeeches(settings.suspendLeeches);
+        setTrashRetentionDays(settings.trashRetentionDays);
+        setDailyGoalType(settings.dailyGoalType);
+        setDailyGoal(settings.dailyGoal);
+        setDayRolloverHour(settings.dayRolloverHour);
+        setNewCardsPerDay(settings.newCardsPerDay);
+        setReviewsPerDay(settings.reviewsPerDay);
+        setMaxSessionSize(settings.maxSessionSize);
       } catch (error) {
         console.error('Failed to load settings:', error);
       }
     };
 
+    const loadVoices = async () => {
+      setAvailableVoices(await getVoices());
+    };
+
     loadSettings();
+    loadVoices();
   }, []);
 
   // Handle known language selection
@@ -63,6 +148,22 @@ export const SettingsPage: React.FC = () => {
     setLearningLanguage(event.target.value);
   };
   
+  // Handle scheduling algorithm selection
+  const handleSchedulerAlgorithmChange = (event: SelectChangeEvent) => {
+    setSchedulerAlgorithm(event.target.value as SchedulerAlgorithm);
+  };
+  
+  // Handle voice selection for a language, empty for automatic
+  const handleVoiceChange = (language: string) => (event: SelectChangeEvent) => {
+    setVoices(prev => ({ ...prev, [language]: event.target.value }));
+  };
+  
+  // Handle the action of a swipe, empty to disable the swipe
+  const handleSwipeActionChange = (direction: SwipeDirection) => (event: SelectChangeEvent) => {
+    const action = event.target.value ? event.target.value as SwipeAction : null;
+    setSwipeActions(prev => ({ ...prev, [direction]: action }));
+  };
+  
   // Close snackbar
   const handleSnackbarClose = () => {
     setSnackbarOpen(false);
@@ -71,13 +172,42 @@ export const SettingsPage: React.FC = () => {
   // Save settings
   const handleSave = async () => {
     try {
-      await saveSettings({
+      await updateSettings({
         knownLanguage,
-        learningLanguage
+        learningLanguage,
+        schedulerAlgorithm,
+        relearnWrongCards,
+        relearningDelay,
+        relearnRevisitCards,
+        voices,
+        autoPlayPronunciation,
+        swipeActions,
+        mirrorSwipes,
+        swipeThreshold,
+        stackDepth,
+        accessibleMode,
+        reduceMotion,
+        leechThreshold,
+        suspendLeeches,
+        trashRetentionDays,
+        dailyGoalType,
+        dailyGoal,
+        dayRolloverHour,
+        newCardsPerDay,
+        reviewsPerDay,
+        maxSessionSize
       });
+
+      // Recompute due dates with the new algorithm
+      let message = 'Settings saved successfully!';
+      if (schedulerAlgorithm !== savedSchedulerAlgorithm) {
+        const rescheduledCount = await rescheduleCards(getScheduler(schedulerAlgorithm));
+        setSavedSchedulerAlgorithm(schedulerAlgorithm);
+        message = `Settings saved, ${rescheduledCount} cards rescheduled`;
+      }
       
       // Show success message with Snackbar
-      setSnackbarMessage('Settings saved successfully!');
+      setSnackbarMessage(message);
       setSnackbarSeverity('success');
       setSnackbarOpen(true);
     } catch (error) {
@@ -270,6 +400,335 @@ export const SettingsPage: React.FC = () => {
           </Select>
         </FormControl>
         
+        <Typography variant="h6" sx={{ mb: 2 }}>
+          Study
+        </Typography>
+
+        <FormControl fullWidth sx={{ mb: 3 }}>
+          <InputLabel id="scheduler-algorithm-label">Scheduling Algorithm</InputLabel>
+          <Select
+            labelId="scheduler-algorithm-label"
+            id="scheduler-algorithm"
+            value={schedulerAlgorithm}
+            label="Scheduling Algorithm"
+            onChange={handleSchedulerAlgorithmChange}
+          >
+            {Object.values(SCHEDULERS).map(scheduler => (
+              <MenuItem key={scheduler.algorithm} value={scheduler.algorithm}>
+                {scheduler.label}
+              </MenuItem>
+            ))}
+          </Select>
+          <FormHelperText>
+            {getScheduler(schedulerAlgorithm).description}
+          </FormHelperText>
+        </FormControl>
+
+        <Stack spacing={1} sx={{ mb: 3 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={relearnWrongCards}
+                onChange={(e) => setRelearnWrongCards(e.target.checked)}
+              />
+            }
+            label="Show wrong cards again during the session"
+          />
+          {relearnWrongCards && (
+            <TextField
+              type="number"
+              label="Cards shown before a wrong card comes back"
+              value={relearningDelay}
+              onChange={(e) => setRelearningDelay(Math.max(1, Number(e.target.value) || 1))}
+              inputProps={{ min: 1, max: 20 }}
+              size="small"
+            />
+          )}
+          <FormControlLabel
+            control={
+              <Switch
+                checked={relearnRevisitCards}
+                onChange={(e) => setRelearnRevisitCards(e.target.checked)}
+              />
+            }
+            label="Show cards marked for revision again at the end"
+          />
+          <FormHelperText>
+            Cards come back until they are answered correctly once
+          </FormHelperText>
+        </Stack>
+
+        <Stack spacing={1} sx={{ mb: 3 }}>
+          <TextField
+            type="number"
+            label="Failures before a card is a leech"
+            value={leechThreshold}
+            onChange={(e) => setLeechThreshold(Math.max(1, Number(e.target.value) || 1))}
+            inputProps={{ min: 1, max: 50 }}
+            size="small"
+            helperText={`Or ${getConsecutiveFailureThreshold(leechThreshold)} wrong answers since the last success. Leeches are tagged "leech"`}
+          />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={suspendLeeches}
+                onChange={(e) => setSuspendLeeches(e.target.checked)}
+              />
+            }
+            label="Suspend leeches automatically"
+          />
+        </Stack>
+
+        <Typography variant="h6" sx={{ mb: 2 }}>
+          Session Limits
+        </Typography>
+
+        <Stack spacing={3} sx={{ mb: 3 }}>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              type="number"
+              label="New cards per day"
+              value={newCardsPerDay}
+              onChange={(e) => setNewCardsPerDay(Math.max(0, Number(e.target.value) || 0))}
+              inputProps={{ min: 0, max: 1000 }}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              type="number"
+              label="Reviews per day"
+              value={reviewsPerDay}
+              onChange={(e) => setReviewsPerDay(Math.max(0, Number(e.target.value) || 0))}
+              inputProps={{ min: 0, max: 9999 }}
+              sx={{ flex: 1 }}
+            />
+          </Box>
+          <TextField
+            type="number"
+            label="Cards per session"
+            value={maxSessionSize}
+            onChange={(e) => setMaxSessionSize(Math.max(1, Number(e.target.value) || 1))}
+            inputProps={{ min: 1, max: 1000 }}
+            helperText="Sessions take due cards first, then struggling cards, then new cards"
+          />
+        </Stack>
+
+        <Typography variant="h6" sx={{ mb: 2 }}>
+          Daily Goal
+        </Typography>
+
+        <Stack spacing={3} sx={{ mb: 3 }}>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              type="number"
+              label="Goal"
+              value={dailyGoal}
+              onChange={(e) => setDailyGoal(Math.max(1, Number(e.target.value) || 1))}
+              inputProps={{ min: 1, max: 1000 }}
+              sx={{ flex: 1 }}
+            />
+            <FormControl sx={{ flex: 1 }}>
+              <InputLabel id="daily-goal-type-label">Counted As</InputLabel>
+              <Select
+                labelId="daily-goal-type-label"
+                value={dailyGoalType}
+                label="Counted As"
+                onChange={(e) => setDailyGoalType(e.target.value as DailyGoalType)}
+              >
+                {(Object.keys(DAILY_GOAL_LABELS) as DailyGoalType[]).map(goalType => (
+                  <MenuItem key={goalType} value={goalType}>
+                    {DAILY_GOAL_LABELS[goalType]} per day
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+          <FormControl fullWidth>
+            <InputLabel id="day-rollover-label">New Day Starts At</InputLabel>
+            <Select
+              labelId="day-rollover-label"
+              value={String(dayRolloverHour)}
+              label="New Day Starts At"
+              onChange={(e) => setDayRolloverHour(Number(e.target.value))}
+            >
+              {Array.from({ length: 24 }, (_, hour) => (
+                <MenuItem key={hour} value={String(hour)}>
+                  {hour === 0 ? 'Midnight' : `${hour}:00`}
+                </MenuItem>
+              ))}
+            </Select>
+            <FormHelperText>
+              Reviews made before this hour count for the day before, and keep your streak going
+            </FormHelperText>
+          </FormControl>
+        </Stack>
+
+        <Typography variant="h6" sx={{ mb: 2 }}>
+          Swipe Gestures
+        </Typography>
+
+        <Stack spacing={3} sx={{ mb: 3 }}>
+          {SWIPE_DIRECTIONS.map(direction => (
+            <FormControl fullWidth key={direction}>
+              <InputLabel id={`swipe-${direction}-label`}>{DIRECTION_LABELS[direction]}</InputLabel>
+              <Select
+                labelId={`swipe-${direction}-label`}
+                value={swipeActions[direction] ?? ''}
+                label={DIRECTION_LABELS[direction]}
+                onChange={handleSwipeActionChange(direction)}
+                displayEmpty
+              >
+                <MenuItem value="">Disabled</MenuItem>
+                {SWIPE_ACTIONS.map(action => (
+                  <MenuItem key={action} value={action}>
+                    {SWIPE_ACTION_LABELS[action]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          ))}
+          <FormHelperText>
+            The grade buttons under the cards work whatever the gestures. Revisit shows the card again at the end of the session
+          </FormHelperText>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={mirrorSwipes}
+                onChange={(e) => setMirrorSwipes(e.target.checked)}
+              />
+            }
+            label="Left-handed: swap the left and right swipes"
+          />
+          <FormControl fullWidth>
+            <InputLabel id="swipe-sensitivity-label">Swipe Sensitivity</InputLabel>
+            <Select
+              labelId="swipe-sensitivity-label"
+              value={String(swipeThreshold)}
+              label="Swipe Sensitivity"
+              onChange={(e) => setSwipeThreshold(Number(e.target.value))}
+            >
+              {SWIPE_SENSITIVITIES.map(({ label, threshold }) => (
+                <MenuItem key={threshold} value={String(threshold)}>
+                  {label}
+                </MenuItem>
+              ))}
+            </Select>
+            <FormHelperText>
+              A card is swiped once dragged {swipeThreshold} pixels away
+            </FormHelperText>
+          </FormControl>
+          <TextField
+            type="number"
+            label="Cards stacked in a session"
+            value={stackDepth}
+            onChange={(e) => setStackDepth(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+            inputProps={{ min: 1, max: 10 }}
+            size="small"
+          />
+        </Stack>
+
+        <Typography variant="h6" sx={{ mb: 2 }}>
+          Accessibility
+        </Typography>
+
+        <Stack spacing={1} sx={{ mb: 3 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={accessibleMode}
+                onChange={(e) => setAccessibleMode(e.target.checked)}
+              />
+            }
+            label="Accessible mode: study with buttons instead of gestures"
+          />
+          <FormHelperText>
+            Shows one card at a time with a flip button, and announces the prompt, the answer and the progress to screen readers
+          </FormHelperText>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={reduceMotion}
+                onChange={(e) => setReduceMotion(e.target.checked)}
+              />
+            }
+            label="Reduce motion"
+          />
+          <FormHelperText>
+            Cards turn over without animation. Always on when the device asks for reduced motion
+          </FormHelperText>
+        </Stack>
+
+        <Typography variant="h6" sx={{ mb: 2 }}>
+          Trash
+        </Typography>
+
+        <FormControl fullWidth sx={{ mb: 3 }}>
+          <InputLabel id="trash-retention-label">Keep Deleted Cards</InputLabel>
+          <Select
+            labelId="trash-retention-label"
+            value={String(trashRetentionDays)}
+            label="Keep Deleted Cards"
+            onChange={(e) => setTrashRetentionDays(Number(e.target.value))}
+          >
+            {TRASH_RETENTIONS.map(({ label, days }) => (
+              <MenuItem key={days} value={String(days)}>
+                {label}
+              </MenuItem>
+            ))}
+          </Select>
+          <FormHelperText>
+            Deleted cards can be restored from the trash until they are purged
+          </FormHelperText>
+        </FormControl>
+
+        <Typography variant="h6" sx={{ mb: 2 }}>
+          Pronunciation
+        </Typography>
+
+        {isSpeechSupported() ? (
+          <Stack spacing={3} sx={{ mb: 3 }}>
+            {[knownLanguage, learningLanguage].filter(Boolean).map(language => {
+              const languageVoices = getVoicesForLanguage(availableVoices, language);
+              return (
+                <FormControl fullWidth key={language}>
+                  <InputLabel id={`voice-${language}-label`}>Voice for {language}</InputLabel>
+                  <Select
+                    labelId={`voice-${language}-label`}
+                    value={voices[language] ?? ''}
+                    label={`Voice for ${language}`}
+                    onChange={handleVoiceChange(language)}
+                    displayEmpty
+                  >
+                    <MenuItem value="">Automatic</MenuItem>
+                    {languageVoices.map(voice => (
+                      <MenuItem key={voice.voiceURI} value={voice.voiceURI}>
+                        {voice.name} ({voice.lang})
+                      </MenuItem>
+                    ))}
+                  </Select>
+                  {languageVoices.length === 0 && (
+                    <FormHelperText>
+                      No voice is available for {language} on this device
+                    </FormHelperText>
+                  )}
+                </FormControl>
+              );
+            })}
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={autoPlayPronunciation}
+                  onChange={(e) => setAutoPlayPronunciation(e.target.checked)}
+                />
+              }
+              label="Pronounce the answer when a card is flipped"
+            />
+          </Stack>
+        ) : (
+          <FormHelperText sx={{ mb: 3 }}>
+            This browser does not support speech synthesis
+          </FormHelperText>
+        )}
+        
         <Button 
           variant="contained" 
           color="primary" 
@@ -331,6 +790,24 @@ export const SettingsPage: React.FC = () => {
           >
             Manage Duplicate Cards
           </Button>
+
+          <Button
+            variant="outlined"
+            color="primary"
+            onClick={() => navigate('/leeches')}
+            fullWidth
+          >
+            Review Leech Cards
+          </Button>
+
+          <Button
+            variant="outlined"
+            color="primary"
+            onClick={() => navigate('/trash')}
+            fullWidth
+          >
+            Open Trash
+          </Button>
         </Stack>
       </Box>
 
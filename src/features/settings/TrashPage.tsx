@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  CircularProgress,
+  Alert,
+  IconButton,
+  Tooltip,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions
+} from '@mui/material';
+import { ArrowBack, RestoreFromTrash, DeleteForever } from '@mui/icons-material';
+import { useNavigate } from 'react-router';
+import {
+  IFlashCard,
+  getTrashedCards,
+  restoreCards,
+  purgeCards,
+  purgeExpiredTrash
+} from '../../services/cardService';
+import { getOrCreateSettings } from '../../services/settingsService';
+import { addDays } from '../../services/schedulerService';
+
+export const TrashPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [trashedCards, setTrashedCards] = useState<IFlashCard[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [cardsToPurge, setCardsToPurge] = useState<IFlashCard[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTrash = async () => {
+      try {
+        setLoading(true);
+        const settings = await getOrCreateSettings();
+        setRetentionDays(settings.trashRetentionDays);
+        await purgeExpiredTrash(settings.trashRetentionDays);
+        setTrashedCards(await getTrashedCards());
+        setError(null);
+      } catch (err) {
+        console.error('Error loading trash:', err);
+        setError('Failed to load the trash');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTrash();
+  }, []);
+
+  const removeFromList = (cards: IFlashCard[]) => {
+    const ids = new Set(cards.map(card => card.id));
+    setTrashedCards(prev => prev.filter(card => !ids.has(card.id)));
+  };
+
+  const handleRestore = async (cards: IFlashCard[]) => {
+    try {
+      await restoreCards(cards.map(card => card.id));
+      removeFromList(cards);
+    } catch (err) {
+      console.error('Error restoring cards:', err);
+      setError('Failed to restore cards. Please try again.');
+    }
+  };
+
+  const handleConfirmPurge = async () => {
+    if (!cardsToPurge) return;
+
+    try {
+      await purgeCards(cardsToPurge.map(card => card.id));
+      removeFromList(cardsToPurge);
+    } catch (err) {
+      console.error('Error purging cards:', err);
+      setError('Failed to delete cards. Please try again.');
+    } finally {
+      setCardsToPurge(null);
+    }
+  };
+
+  // Date at which a trashed card is purged, if it ever is
+  const getPurgeDate = (card: IFlashCard): string | null => {
+    if (retentionDays <= 0) return null;
+    return addDays(new Date(card.deletedAt!), retentionDays).toLocaleDateString();
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 2, maxWidth: 800, mx: 'auto', mb: 8 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 3 }}>
+        <IconButton onClick={() => navigate('/settings')} sx={{ mr: 1 }}>
+          <ArrowBack />
+        </IconButton>
+        <Typography variant="h5" component="h1">
+          Trash
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>{error}</Alert>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1, gap: 1 }}>
+        <Typography variant="subtitle1">
+          {trashedCards.length} deleted cards
+        </Typography>
+        {trashedCards.length > 0 && (
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button size="small" startIcon={<RestoreFromTrash />} onClick={() => handleRestore(trashedCards)}>
+              Restore all
+            </Button>
+            <Button size="small" color="error" startIcon={<DeleteForever />} onClick={() => setCardsToPurge(trashedCards)}>
+              Empty trash
+            </Button>
+          </Box>
+        )}
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        {retentionDays > 0
+          ? `Deleted cards are kept with their history for ${retentionDays} days, then deleted for good.`
+          : 'Deleted cards are kept with their history until you empty the trash.'}
+      </Typography>
+
+      {trashedCards.map(card => (
+        <Card key={card.id} sx={{ mb: 2 }}>
+          <CardContent sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 1 }}>
+            <Box>
+              <Typography variant="h6" sx={{ color: 'primary.main' }}>
+                {card.learning}
+              </Typography>
+              <Typography variant="body1">
+                {card.known}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                Deleted {new Date(card.deletedAt!).toLocaleDateString()}
+                {getPurgeDate(card) && ` · removed for good on ${getPurgeDate(card)}`}
+              </Typography>
+            </Box>
+            <Box sx={{ display: 'flex' }}>
+              <Tooltip title="Restore this card">
+                <IconButton onClick={() => handleRestore([card])} aria-label="Restore">
+                  <RestoreFromTrash />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Delete this card for good">
+                <IconButton onClick={() => setCardsToPurge([card])} color="error" aria-label="Delete for good">
+                  <DeleteForever />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          </CardContent>
+        </Card>
+      ))}
+
+      {/* Confirmation Dialog */}
+      <Dialog
+        open={cardsToPurge !== null}
+        onClose={() => setCardsToPurge(null)}
+        aria-labelledby="purge-dialog-title"
+      >
+        <DialogTitle id="purge-dialog-title">
+          Delete for Good
+        </DialogTitle>
+        <DialogContent>
+          <Typography>
+            {cardsToPurge?.length === 1
+              ? 'This card and its review history will be deleted permanently.'
+              : `These ${cardsToPurge?.length} cards and their review history will be deleted permanently.`}
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCardsToPurge(null)}>Cancel</Button>
+          <Button onClick={handleConfirmPurge} color="error" variant="contained">
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
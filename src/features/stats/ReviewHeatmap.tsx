@@ -0,0 +1,78 @@
+import React, { useMemo } from 'react';
+import { Box, Tooltip, Typography, useTheme } from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import { getDayKey, getWeekStart } from '../../services/statsService';
+
+interface ReviewHeatmapProps {
+  reviewsPerDay: Record<string, number>; // Reviews by study day key
+  dayRolloverHour: number;
+  weekCount?: number;
+}
+
+const DAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', 'Sun'];
+const CELL_SIZE = 12;
+const CELL_GAP = 3;
+
+/**
+ * Calendar of the last weeks, each day shaded by its number of reviews
+ */
+export const ReviewHeatmap: React.FC<ReviewHeatmapProps> = ({ reviewsPerDay, dayRolloverHour, weekCount = 20 }) => {
+  const theme = useTheme();
+
+  // One column per week, from Monday to Sunday, leaving out the days to come
+  const weeks = useMemo(() => {
+    // Before the rollover hour, today is still the study day before
+    const today = new Date();
+    today.setHours(today.getHours() - dayRolloverHour);
+    const todayKey = getDayKey(today);
+    const firstDay = getWeekStart(today);
+    firstDay.setDate(firstDay.getDate() - (weekCount - 1) * 7);
+
+    return Array.from({ length: weekCount }, (_, weekIndex) =>
+      Array.from({ length: 7 }, (_, dayIndex) => {
+        const day = new Date(firstDay);
+        day.setDate(firstDay.getDate() + weekIndex * 7 + dayIndex);
+        const dayKey = getDayKey(day);
+        return dayKey > todayKey ? null : { dayKey, date: day, count: reviewsPerDay[dayKey] || 0 };
+      })
+    );
+  }, [reviewsPerDay, dayRolloverHour, weekCount]);
+
+  const maxCount = Math.max(1, ...Object.values(reviewsPerDay));
+
+  const getCellColor = (count: number) => {
+    if (count === 0) return theme.palette.action.hover;
+    // Four shades, so a single busy day doesn't wash out the others
+    const level = Math.ceil(count / maxCount * 4) / 4;
+    return alpha(theme.palette.primary.main, 0.25 + level * 0.75);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', gap: `${CELL_GAP}px`, overflowX: 'auto', pb: 1 }}>
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: `${CELL_GAP}px`, mr: 0.5 }}>
+        {DAY_LABELS.map((label, index) => (
+          <Typography key={index} variant="caption" color="text.secondary" sx={{ height: CELL_SIZE, lineHeight: `${CELL_SIZE}px`, fontSize: 10 }}>
+            {label}
+          </Typography>
+        ))}
+      </Box>
+      {weeks.map((days, weekIndex) => (
+        <Box key={weekIndex} sx={{ display: 'flex', flexDirection: 'column', gap: `${CELL_GAP}px` }}>
+          {days.map((day, dayIndex) => day ? (
+            <Tooltip
+              key={day.dayKey}
+              title={`${day.count} reviews on ${day.date.toLocaleDateString()}`}
+            >
+              <Box
+                aria-label={`${day.count} reviews on ${day.date.toLocaleDateString()}`}
+                sx={{ width: CELL_SIZE, height: CELL_SIZE, borderRadius: 0.5, bgcolor: getCellColor(day.count) }}
+              />
+            </Tooltip>
+          ) : (
+            <Box key={dayIndex} sx={{ width: CELL_SIZE, height: CELL_SIZE }} />
+          ))}
+        </Box>
+      ))}
+    </Box>
+  );
+};
@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Stack,
+  CircularProgress,
+  Alert,
+  LinearProgress,
+  Tooltip
+} from '@mui/material';
+import { IFlashCard, IReview, getAnswerCount, getCards, getReviews } from '../../services/cardService';
+import { getOrCreateSettings, DEFAULT_SETTINGS } from '../../services/settingsService';
+import { shiftDayKey } from '../../services/goalService';
+import {
+  GroupAccuracy,
+  getAccuracy,
+  getAccuracyByGroup,
+  getCardsAddedPerWeek,
+  getMaturityDistribution,
+  getReviewsPerDay,
+  getStudyDayKey,
+  getWeeklyAccuracy
+} from '../../services/statsService';
+import { MATURITY_LABELS, MATURITY_STATES } from '../../services/maturityService';
+import { MATURITY_COLORS } from '../../components/MaturityChip';
+import { ReviewHeatmap } from './ReviewHeatmap';
+
+// Number of weeks shown in the weekly charts
+const WEEK_COUNT = 12;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatWeek = (weekStart: string) =>
+  new Date(`${weekStart}T00:00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+interface WeeklyBar {
+  weekStart: string;
+  value: number;      // Height of the bar, between 0 and 1
+  label: string;      // Shown in the tooltip
+}
+
+// Vertical bars, one per week, labelled with the first and last weeks
+const WeeklyBarChart: React.FC<{ bars: WeeklyBar[]; color: string }> = ({ bars, color }) => (
+  <Box>
+    <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: 0.5, height: 100 }}>
+      {bars.map(bar => (
+        <Tooltip key={bar.weekStart} title={`Week of ${formatWeek(bar.weekStart)}: ${bar.label}`}>
+          <Box
+            aria-label={`Week of ${formatWeek(bar.weekStart)}: ${bar.label}`}
+            sx={{
+              flex: 1,
+              height: `${Math.max(bar.value * 100, 2)}%`,
+              bgcolor: bar.value > 0 ? color : 'action.hover',
+              borderRadius: '2px 2px 0 0'
+            }}
+          />
+        </Tooltip>
+      ))}
+    </Box>
+    {bars.length > 0 && (
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 0.5 }}>
+        <Typography variant="caption" color="text.secondary">{formatWeek(bars[0].weekStart)}</Typography>
+        <Typography variant="caption" color="text.secondary">This week</Typography>
+      </Box>
+    )}
+  </Box>
+);
+
+// Accuracy of each group as a labelled progress bar
+const GroupAccuracyList: React.FC<{ groups: GroupAccuracy[]; emptyText: string }> = ({ groups, emptyText }) => (
+  groups.length === 0 ? (
+    <Typography variant="body2" color="text.secondary">{emptyText}</Typography>
+  ) : (
+    <Stack spacing={1.5}>
+      {groups.map(group => (
+        <Box key={group.label}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Typography variant="body2">{group.label}</Typography>
+            <Typography variant="body2" color="text.secondary">
+              {formatPercent(group.accuracy)} · {group.cardCount} cards
+            </Typography>
+          </Box>
+          <LinearProgress
+            variant="determinate"
+            value={group.accuracy * 100}
+            color={group.accuracy >= 0.5 ? 'success' : 'error'}
+            sx={{ height: 6, borderRadius: 3 }}
+          />
+        </Box>
+      ))}
+    </Stack>
+  )
+);
+
+export const StatsPage: React.FC = () => {
+  const [cards, setCards] = useState<IFlashCard[]>([]);
+  const [reviews, setReviews] = useState<IReview[]>([]);
+  const [dayRolloverHour, setDayRolloverHour] = useState(DEFAULT_SETTINGS.dayRolloverHour);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        const [allCards, allReviews, settings] = await Promise.all([getCards(), getReviews(), getOrCreateSettings()]);
+        // Leave out the history of the cards in the trash
+        const cardIds = new Set(allCards.map(card => card.id));
+        setDayRolloverHour(settings.dayRolloverHour);
+        setCards(allCards);
+        setReviews(allReviews.filter(review => cardIds.has(review.cardId)));
+        setError(null);
+      } catch (err) {
+        console.error('Error loading statistics:', err);
+        setError('Failed to load statistics');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, []);
+
+  const stats = useMemo(() => {
+    // Days are study days, as for the daily goal
+    const reviewsPerDay = getReviewsPerDay(cards, reviews, dayRolloverHour);
+    const lastWeekKey = shiftDayKey(getStudyDayKey(new Date(), dayRolloverHour), -6);
+
+    const weeklyAccuracy = getWeeklyAccuracy(reviews, WEEK_COUNT);
+    const cardsAdded = getCardsAddedPerWeek(cards, WEEK_COUNT);
+    const maxAdded = Math.max(1, ...cardsAdded.map(week => week.count));
+
+    return {
+      reviewsPerDay,
+      totalAnswers: cards.reduce((sum, card) => sum + getAnswerCount(card), 0),
+      overall: getAccuracy(
+        cards.reduce((sum, card) => sum + card.correctCount, 0),
+        cards.reduce((sum, card) => sum + getAnswerCount(card), 0)
+      ),
+      lastWeekReviews: Object.entries(reviewsPerDay)
+        .filter(([dayKey]) => dayKey >= lastWeekKey)
+        .reduce((sum, [, count]) => sum + count, 0),
+      accuracyBars: weeklyAccuracy.map(week => ({
+        weekStart: week.weekStart,
+        value: week.accuracy,
+        label: week.total > 0 ? `${formatPercent(week.accuracy)} of ${week.total} reviews` : 'no reviews'
+      })),
+      addedBars: cardsAdded.map(week => ({
+        weekStart: week.weekStart,
+        value: week.count / maxAdded,
+        label: `${week.count} cards added`
+      })),
+      addedThisPeriod: cardsAdded.reduce((sum, week) => sum + week.count, 0),
+      maturity: getMaturityDistribution(cards),
+      tagAccuracy: getAccuracyByGroup(cards, card => card.tags ?? []),
+      languageAccuracy: getAccuracyByGroup(cards, card => [`${card.learningLanguage} → ${card.knownLanguage}`])
+    };
+  }, [cards, reviews, dayRolloverHour]);
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ p: 2, maxWidth: 600, mx: 'auto', mb: 8 }}>
+      <Typography variant="h5" component="h1" sx={{ mb: 3 }}>
+        Statistics
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>{error}</Alert>
+      )}
+
+      <Stack spacing={3}>
+        {/* Summary */}
+        <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 2 }}>
+          {[
+            { label: 'Cards', value: cards.length },
+            { label: 'Reviews in 7 days', value: stats.lastWeekReviews },
+            { label: 'Accuracy', value: formatPercent(stats.overall.accuracy) }
+          ].map(({ label, value }) => (
+            <Paper key={label} sx={{ p: 2, textAlign: 'center', borderRadius: 2 }}>
+              <Typography variant="h5">{value}</Typography>
+              <Typography variant="caption" color="text.secondary">{label}</Typography>
+            </Paper>
+          ))}
+        </Box>
+
+        {/* Reviews per day */}
+        <Paper sx={{ p: 2, borderRadius: 2 }}>
+          <Typography variant="h6" sx={{ mb: 2 }}>
+            Reviews per Day
+          </Typography>
+          <ReviewHeatmap reviewsPerDay={stats.reviewsPerDay} dayRolloverHour={dayRolloverHour} />
+          {stats.totalAnswers > reviews.length && (
+            <Typography variant="caption" color="text.secondary">
+              Answers given before reviews were recorded are shown on the day each card was last studied.
+            </Typography>
+          )}
+        </Paper>
+
+        {/* Accuracy over time */}
+        <Paper sx={{ p: 2, borderRadius: 2 }}>
+          <Typography variant="h6" sx={{ mb: 2 }}>
+            Accuracy per Week
+          </Typography>
+          {reviews.length > 0 ? (
+            <WeeklyBarChart bars={stats.accuracyBars} color="success.main" />
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              Finish a learning session to follow your accuracy over time.
+            </Typography>
+          )}
+        </Paper>
+
+        {/* Cards added */}
+        <Paper sx={{ p: 2, borderRadius: 2 }}>
+          <Typography variant="h6" sx={{ mb: 2 }}>
+            Cards Added per Week
+          </Typography>
+          <WeeklyBarChart bars={stats.addedBars} color="primary.main" />
+          <Typography variant="caption" color="text.secondary">
+            {stats.addedThisPeriod} cards added in the last {WEEK_COUNT} weeks
+          </Typography>
+        </Paper>
+
+        {/* Mastery */}
+        <Paper sx={{ p: 2, borderRadius: 2 }}>
+          <Typography variant="h6" sx={{ mb: 2 }}>
+            Maturity
+          </Typography>
+          {cards.length > 0 && (
+            <Box sx={{ display: 'flex', height: 16, borderRadius: 2, overflow: 'hidden', mb: 1.5 }}>
+              {MATURITY_STATES.map(state => (
+                <Box
+                  key={state}
+                  sx={{ width: `${stats.maturity[state] / cards.length * 100}%`, bgcolor: MATURITY_COLORS[state] }}
+                />
+              ))}
+            </Box>
+          )}
+          <Stack spacing={0.5}>
+            {MATURITY_STATES.map(state => (
+              <Box key={state} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Box sx={{ width: 12, height: 12, borderRadius: 0.5, bgcolor: MATURITY_COLORS[state] }} />
+                <Typography variant="body2" sx={{ flex: 1 }}>{MATURITY_LABELS[state]}</Typography>
+                <Typography variant="body2" color="text.secondary">{stats.maturity[state]}</Typography>
+              </Box>
+            ))}
+          </Stack>
+        </Paper>
+
+        {/* Accuracy by tag and language pair */}
+        <Paper sx={{ p: 2, borderRadius: 2 }}>
+          <Typography variant="h6" sx={{ mb: 2 }}>
+            Accuracy by Tag
+          </Typography>
+          <GroupAccuracyList groups={stats.tagAccuracy} emptyText="No tagged card has been studied yet." />
+        </Paper>
+
+        <Paper sx={{ p: 2, borderRadius: 2 }}>
+          <Typography variant="h6" sx={{ mb: 2 }}>
+            Accuracy by Language Pair
+          </Typography>
+          <GroupAccuracyList groups={stats.languageAccuracy} emptyText="No card has been studied yet." />
+        </Paper>
+      </Stack>
+    </Box>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Box, Typography, Alert } from '@mui/material';
+import { DiffSegment, GradedAnswer } from '../../services/answerGrading';
+
+interface AnswerFeedbackProps {
+  gradedAnswer: GradedAnswer;
+}
+
+const VERDICT_MESSAGES: Record<GradedAnswer['verdict'], { severity: 'success' | 'warning' | 'error'; message: string }> = {
+  exact: { severity: 'success', message: 'Correct!' },
+  close: { severity: 'warning', message: 'Almost! Counted as correct, but watch the spelling' },
+  wrong: { severity: 'error', message: 'Not quite' }
+};
+
+// Shows the expected answer with what was missing and what was typed in excess
+const AnswerDiff: React.FC<{ diff: DiffSegment[] }> = ({ diff }) => (
+  <Typography variant="h6" component="p" sx={{ wordBreak: 'break-word' }}>
+    {diff.map((segment, index) => (
+      <Box
+        component="span"
+        key={index}
+        sx={{
+          ...(segment.type === 'missing' && {
+            color: 'success.main',
+            textDecoration: 'underline',
+            fontWeight: 700
+          }),
+          ...(segment.type === 'extra' && {
+            color: 'error.main',
+            textDecoration: 'line-through'
+          })
+        }}
+      >
+        {segment.text}
+      </Box>
+    ))}
+  </Typography>
+);
+
+export const AnswerFeedback: React.FC<AnswerFeedbackProps> = ({ gradedAnswer }) => {
+  const verdict = VERDICT_MESSAGES[gradedAnswer.verdict];
+
+  return (
+    <Alert severity={verdict.severity} sx={{ width: '100%', maxWidth: 400 }}>
+      <Typography variant="body2" sx={{ mb: 1 }}>
+        {verdict.message}
+      </Typography>
+      <AnswerDiff diff={gradedAnswer.diff} />
+    </Alert>
+  );
+};
@@ -0,0 +1,394 @@
+import React, { useState, useEffect, useRef, useCallback, useReducer } from 'react';
+import { Box, Typography, IconButton, Button, Stack, Paper } from '@mui/material';
+import { ArrowBack, Check, Close, Replay, PlayArrow, Pause, Headphones } from '@mui/icons-material';
+import { useNavigate, useLocation } from 'react-router';
+import { IFlashCard, reviewCard, generateId, getCardsByIds, getStudyDirection } from '../../services/cardService';
+import { recordReviewStudy } from '../../services/goalService';
+import { ReviewOutcome, Scheduler, getScheduler } from '../../services/schedulerService';
+import { getOrCreateSettings, DEFAULT_SETTINGS } from '../../services/settingsService';
+import { isSpeechSupported, speak, stopSpeaking } from '../../services/pronunciationService';
+import { getActiveSession, getSession } from '../../services/sessionService';
+import { useMediaSession, createSilentAudioUrl } from '../../hooks/useMediaSession';
+import useColorScheme from '../../hooks/useColorScheme';
+import useSessionTimeLimit from '../../hooks/useSessionTimeLimit';
+import useSessionPersistence from '../../hooks/useSessionPersistence';
+import { SessionSummary } from './SessionSummary';
+import { SessionTimer } from './SessionTimer';
+import { RelearningOptions, learningSessionReducer, initialLearningSessionState } from './learningSessionReducer';
+
+interface LocationState {
+  cards: IFlashCard[];
+  showKnownLanguage: boolean;
+  sessionId?: string;
+  timeLimitMinutes?: number; // The session ends after the card answered once this time is up
+}
+
+// Steps of a card: the prompt is read, then a pause leaves time to answer before the answer is read
+type AudioPhase = 'prompt' | 'pause' | 'answer' | 'grading';
+
+const PHASE_LABELS: Record<AudioPhase, string> = {
+  prompt: 'Listen…',
+  pause: 'Your turn: say the answer',
+  answer: 'The answer is…',
+  grading: 'Did you get it right?'
+};
+
+// Time left to answer between the prompt and the answer
+const ANSWER_DELAY_MS = 3000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const AudioSessionPage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const colorScheme = useColorScheme();
+  const promptedAtRef = useRef(Date.now());
+  const [showKnownLanguage, setShowKnownLanguage] = useState(false);
+  const [scheduler, setScheduler] = useState<Scheduler>(getScheduler('sm2'));
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [phase, setPhase] = useState<AudioPhase>('prompt');
+  const [replayCount, setReplayCount] = useState(0);
+  const [silentAudioUrl, setSilentAudioUrl] = useState<string>();
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const [state, dispatch] = useReducer(learningSessionReducer, initialLearningSessionState);
+
+  // Initialize the session from location state
+  useEffect(() => {
+    const { cards: initialCards, showKnownLanguage: initialShowKnown, sessionId, timeLimitMinutes } = (location.state as LocationState) ?? {
+      cards: [],
+      showKnownLanguage: false
+    };
+
+    const initializeSession = async () => {
+      let relearning: RelearningOptions = DEFAULT_SETTINGS;
+      try {
+        const settings = await getOrCreateSettings();
+        relearning = settings;
+        setScheduler(getScheduler(settings.schedulerAlgorithm));
+      } catch (err) {
+        console.error('Error loading settings:', err);
+      }
+
+      try {
+        // A reload keeps the location state: look for the saved session with the same id
+        const savedSession = initialCards?.length
+          ? (sessionId ? await getSession(sessionId) : null)
+          : await getActiveSession();
+        if (savedSession?.mode === 'audio') {
+          const sessionCards = await getCardsByIds(savedSession.queueCardIds);
+          if (sessionCards.length) {
+            setShowKnownLanguage(savedSession.showKnownLanguage);
+            setIsPlaying(false);
+            dispatch({
+              type: 'RESTORE_SESSION',
+              session: savedSession,
+              cards: sessionCards,
+              relearning,
+              stackDepth: 1
+            });
+            return;
+          }
+        }
+      } catch (err) {
+        console.error('Error resuming session:', err);
+      }
+
+      if (!initialCards?.length) {
+        dispatch({
+          type: 'SET_ERROR',
+          error: 'No cards available. Please go back and try different filters.'
+        });
+        return;
+      }
+
+      setShowKnownLanguage(initialShowKnown);
+      setIsPlaying(false);
+      dispatch({
+        type: 'INITIALIZE_CARDS',
+        payload: initialCards,
+        sessionId: sessionId ?? generateId(),
+        startedAt: new Date().toISOString(),
+        relearning,
+        // Cards are read one at a time
+        stackDepth: 1,
+        timeLimitMinutes
+      });
+    };
+
+    initializeSession();
+  }, [location.state]);
+
+  // Persist the session as it changes so it can be resumed
+  useSessionPersistence(state, showKnownLanguage, 'audio');
+
+  // Create the silent audio, released with the speech when leaving the page
+  useEffect(() => {
+    const url = createSilentAudioUrl();
+    setSilentAudioUrl(url);
+    return () => {
+      stopSpeaking();
+      URL.revokeObjectURL(url);
+    };
+  }, []);
+
+  const currentCard = state.cards[state.cards.length - 1];
+  const currentCardKey = currentCard ? `${currentCard.id}-${currentCard.attempt ?? 0}` : undefined;
+  const promptWord = currentCard && (showKnownLanguage ? currentCard.known : currentCard.learning);
+  const promptLanguage = currentCard && (showKnownLanguage ? currentCard.knownLanguage : currentCard.learningLanguage);
+  const answerWord = currentCard && (showKnownLanguage ? currentCard.learning : currentCard.known);
+  const answerLanguage = currentCard && (showKnownLanguage ? currentCard.learningLanguage : currentCard.knownLanguage);
+
+  // Read the prompt, pause, then read the answer of each card
+  useEffect(() => {
+    if (!isPlaying || !currentCardKey || !promptWord || !promptLanguage || !answerWord || !answerLanguage) return;
+
+    let cancelled = false;
+    const readCard = async () => {
+      setPhase('prompt');
+      promptedAtRef.current = Date.now();
+      await speak(promptWord, promptLanguage);
+      if (cancelled) return;
+
+      setPhase('pause');
+      await wait(ANSWER_DELAY_MS);
+      if (cancelled) return;
+
+      setPhase('answer');
+      await speak(answerWord, answerLanguage);
+      if (cancelled) return;
+
+      setPhase('grading');
+    };
+
+    readCard();
+    return () => {
+      cancelled = true;
+      stopSpeaking();
+    };
+  }, [isPlaying, currentCardKey, promptWord, promptLanguage, answerWord, answerLanguage, replayCount]);
+
+  // Keep the silent audio playing with the session so the media keys reach the page
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (isPlaying && currentCard) {
+      audio.play().catch(err => console.warn('Could not play the media session audio:', err));
+    } else {
+      audio.pause();
+    }
+  }, [isPlaying, currentCard]);
+
+  const handleGrade = useCallback(async (outcome: ReviewOutcome) => {
+    const card = state.cards[state.cards.length - 1];
+    if (!card) return;
+
+    // Same queue logic as a swipe: the card leaves the stack and may come back for relearning
+    dispatch({ type: 'UPDATE_CARD', payload: { ...card, outcome } });
+    dispatch({ type: 'CARD_LEFT_SCREEN', cardId: card.id });
+
+    try {
+      const { card: reviewedCard, record } = await reviewCard(card, outcome, scheduler, {
+        sessionId: state.sessionId,
+        direction: getStudyDirection(showKnownLanguage),
+        responseTimeMs: Date.now() - promptedAtRef.current,
+        // Only the first answer of the session schedules the card
+        isRelearning: (card.attempt ?? 0) > 0
+      });
+      dispatch({ type: 'REVIEW_SAVED', cardId: card.id, card: reviewedCard, review: record });
+      await recordReviewStudy(record);
+    } catch (err) {
+      console.error('Error updating card:', err);
+    }
+  }, [state.cards, state.sessionId, scheduler, showKnownLanguage]);
+
+  const handleTogglePlay = useCallback(() => {
+    setIsPlaying(prev => !prev);
+  }, []);
+
+  const handleReplay = useCallback(() => {
+    setReplayCount(prev => prev + 1);
+    setIsPlaying(true);
+  }, []);
+
+  // Headset and lock screen controls: next = correct, previous = wrong
+  useMediaSession(isPlaying && promptWord ? promptWord : 'Audio review', {
+    play: () => setIsPlaying(true),
+    pause: () => setIsPlaying(false),
+    nexttrack: () => handleGrade('correct'),
+    previoustrack: () => handleGrade('wrong')
+  });
+
+  const handleBackClick = useCallback(() => {
+    navigate('/');
+  }, [navigate]);
+
+  // Let the card being answered be the last one once the time is up
+  const { remainingMs, isTimeUp } = useSessionTimeLimit(state.startedAt, state.timeLimitMinutes, Boolean(state.completedAt));
+  useEffect(() => {
+    if (isTimeUp && !state.isTimeUp) {
+      dispatch({ type: 'TIME_UP' });
+    }
+  }, [isTimeUp, state.isTimeUp]);
+
+  // Start a follow-up session with some of the cards of this one
+  const handleRetry = useCallback((retryCards: IFlashCard[]) => {
+    navigate('/audio-session', {
+      state: {
+        cards: retryCards,
+        showKnownLanguage,
+        sessionId: generateId()
+      },
+      replace: true
+    });
+  }, [navigate, showKnownLanguage]);
+
+  // Progress in distinct cards: a card put back for relearning is still remaining
+  const totalCount = new Set(state.initialCards.map(card => card.id)).size;
+  const remainingCount = new Set([
+    ...state.cards.map(card => card.id),
+    ...state.initialCards.slice(state.nextCardIndex).map(card => card.id)
+  ]).size;
+
+  if (state.error || !isSpeechSupported()) {
+    return (
+      <Box sx={{
+        height: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        p: 2
+      }}>
+        <Typography color="error" align="center">
+          {state.error ?? 'This browser does not support speech synthesis.'}
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{
+      height: '100vh',
+      display: 'flex',
+      flexDirection: 'column',
+      bgcolor: 'background.default'
+    }}>
+      <audio ref={audioRef} src={silentAudioUrl} loop />
+
+      {/* Header */}
+      <Box sx={{
+        p: 2,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+      }}>
+        <IconButton onClick={handleBackClick} color="primary">
+          <ArrowBack />
+        </IconButton>
+        {currentCard && (
+          <Typography variant="h6">
+            {remainingCount} / {totalCount}
+          </Typography>
+        )}
+        {remainingMs !== null && currentCard ? (
+          <SessionTimer remainingMs={remainingMs} />
+        ) : (
+          <Box sx={{ width: 40 }} />
+        )}
+      </Box>
+
+      {!currentCard ? (
+        state.initialCards.length > 0 && (
+          <SessionSummary
+            answeredCards={state.discardedCards}
+            startedAt={state.startedAt}
+            completedAt={state.completedAt}
+            onRetry={handleRetry}
+            onBack={handleBackClick}
+          />
+        )
+      ) : (
+        <Box sx={{
+          flexGrow: 1,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          p: 2,
+          gap: 3
+        }}>
+          <Paper
+            elevation={8}
+            sx={{
+              width: '100%',
+              maxWidth: 400,
+              minHeight: 160,
+              borderRadius: 4,
+              p: 3,
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: 2,
+              backgroundColor: showKnownLanguage ? colorScheme.knownWordBackground : colorScheme.learningWordBackground
+            }}
+          >
+            <Headphones sx={{ fontSize: 48, color: showKnownLanguage ? colorScheme.knownWord : colorScheme.learningWord }} />
+            <Typography variant="h6" align="center" aria-live="polite">
+              {isPlaying ? PHASE_LABELS[phase] : 'Paused'}
+            </Typography>
+            {phase === 'grading' && (
+              <Typography variant="body1" align="center" color="text.secondary">
+                {promptWord} → {answerWord}
+              </Typography>
+            )}
+          </Paper>
+
+          <Stack direction="row" spacing={2}>
+            <IconButton
+              onClick={handleTogglePlay}
+              color="primary"
+              aria-label={isPlaying ? 'Pause' : 'Play'}
+              sx={{ border: 1, borderColor: 'primary.main' }}
+            >
+              {isPlaying ? <Pause fontSize="large" /> : <PlayArrow fontSize="large" />}
+            </IconButton>
+            <IconButton
+              onClick={handleReplay}
+              color="primary"
+              aria-label="Read again"
+              sx={{ border: 1, borderColor: 'primary.main' }}
+            >
+              <Replay fontSize="large" />
+            </IconButton>
+          </Stack>
+
+          <Stack direction="row" spacing={2} sx={{ width: '100%', maxWidth: 400, mt: 'auto', mb: 2 }}>
+            <Button
+              variant="contained"
+              color="error"
+              startIcon={<Close />}
+              onClick={() => handleGrade('wrong')}
+              sx={{ flex: 1, py: 4, borderRadius: 3, fontSize: '1.2rem' }}
+            >
+              Wrong
+            </Button>
+            <Button
+              variant="contained"
+              color="success"
+              startIcon={<Check />}
+              onClick={() => handleGrade('correct')}
+              sx={{ flex: 1, py: 4, borderRadius: 3, fontSize: '1.2rem' }}
+            >
+              Correct
+            </Button>
+          </Stack>
+
+          <Typography variant="body2" color="text.secondary" align="center">
+            Headset controls: next track if correct, previous track if wrong
+          </Typography>
+        </Box>
+      )}
+    </Box>
+  );
+};
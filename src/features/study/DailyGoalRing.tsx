@@ -0,0 +1,82 @@
+import React from 'react';
+import { Box, CircularProgress, Paper, Typography } from '@mui/material';
+import { LocalFireDepartment } from '@mui/icons-material';
+import { GoalProgress, DAILY_GOAL_LABELS } from '../../services/goalService';
+
+interface DailyGoalRingProps {
+  progress: GoalProgress;
+}
+
+/**
+ * Progress ring of today's goal, next to the current streak
+ */
+export const DailyGoalRing: React.FC<DailyGoalRingProps> = ({ progress }) => {
+  const percent = progress.goal > 0 ? Math.min(100, progress.done / progress.goal * 100) : 100;
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 2,
+        width: '100%',
+        maxWidth: 400,
+        borderRadius: 2,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 2
+      }}
+    >
+      <Box sx={{ position: 'relative', display: 'inline-flex' }}>
+        <CircularProgress
+          variant="determinate"
+          value={100}
+          size={72}
+          thickness={5}
+          sx={{ color: 'action.hover', position: 'absolute' }}
+        />
+        <CircularProgress
+          variant="determinate"
+          value={percent}
+          size={72}
+          thickness={5}
+          color={progress.isTodayMet ? 'success' : 'primary'}
+          aria-label={`Daily goal: ${progress.done} of ${progress.goal} ${DAILY_GOAL_LABELS[progress.goalType].toLowerCase()}`}
+        />
+        <Box
+          sx={{
+            position: 'absolute',
+            inset: 0,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center'
+          }}
+        >
+          <Typography variant="body2" fontWeight="bold">
+            {progress.done}/{progress.goal}
+          </Typography>
+        </Box>
+      </Box>
+
+      <Box sx={{ flex: 1 }}>
+        <Typography variant="subtitle1">
+          {progress.isTodayMet ? 'Daily goal reached!' : `${DAILY_GOAL_LABELS[progress.goalType]} today`}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {progress.isTodayMet
+            ? 'Come back tomorrow to keep your streak going'
+            : `${progress.goal - progress.done} more to reach your goal`}
+        </Typography>
+      </Box>
+
+      <Box sx={{ textAlign: 'center' }} aria-label={`${progress.streak} day streak, longest ${progress.longestStreak}`}>
+        <LocalFireDepartment sx={{ color: progress.streak > 0 ? '#f57c00' : 'action.disabled' }} />
+        <Typography variant="body2" fontWeight="bold">
+          {progress.streak}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          {progress.streak === 1 ? 'day' : 'days'}
+        </Typography>
+      </Box>
+    </Paper>
+  );
+};
@@ -1,147 +1,127 @@
 import React, { useState, useEffect, useRef, useCallback, useReducer } from 'react';
-import { Box, Paper, Typography, IconButton, Button } from '@mui/material';
-import { ArrowBack, Undo } from '@mui/icons-material';
+import { Box, Paper, Typography, IconButton, Button, Stack, useMediaQuery } from '@mui/material';
+import { ArrowBack, Undo, Redo, Keyboard, Flip, Block, Bedtime } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router';
 import TinderCard from 'react-tinder-card';
 import ReactCardFlip from 'react-card-flip';
-import { IFlashCard, getCardsByLanguages, updateCard } from '../../services/cardService';
-import { getOrCreateSettings } from '../../services/settingsService';
+import {
+  IFlashCard,
+  ReviewRecord,
+  getCardsByLanguages,
+  reviewCard,
+  undoReview,
+  redoReview,
+  generateId,
+  getCardsByIds,
+  getStudyDirection,
+  getBuriedUntil,
+  setCardsStatus,
+  SwipeDirection
+} from '../../services/cardService';
+import { recordReviewStudy } from '../../services/goalService';
+import {
+  ReviewGrade,
+  Scheduler,
+  getScheduler,
+  getGradeOutcome,
+  REVIEW_GRADES,
+  GRADE_LABELS
+} from '../../services/schedulerService';
+import { getOrCreateSettings, getSwipeAction, DEFAULT_SETTINGS, Settings } from '../../services/settingsService';
+import { speak } from '../../services/pronunciationService';
+import {
+  getActiveSession,
+  getSession,
+  SwipeAction,
+  SWIPE_DIRECTIONS,
+  SWIPE_ACTION_LABELS
+} from '../../services/sessionService';
 import useColorScheme from '../../hooks/useColorScheme';
+import useSessionTimeLimit from '../../hooks/useSessionTimeLimit';
+import useSessionPersistence from '../../hooks/useSessionPersistence';
+import useExclusiveTask from '../../hooks/useExclusiveTask';
+import { useKeyboardShortcuts, KeyboardShortcut } from '../../hooks/useKeyboardShortcuts';
+import { SessionSummary } from './SessionSummary';
+import { SessionTimer } from './SessionTimer';
+import {
+  CardWithFlipState,
+  RelearningOptions,
+  learningSessionReducer,
+  initialLearningSessionState
+} from './learningSessionReducer';
+import { SpeakButton } from '../../components/SpeakButton';
+import { KeyboardShortcutsDialog } from '../../components/KeyboardShortcutsDialog';
 
-interface CardWithFlipState extends IFlashCard {
-  isFlipped: boolean;
-  isRestoring?: boolean;
-  swipeDirection?: 'left' | 'right' | 'down';  // Store the direction the card was swiped
+// Add type for the expected location state
+interface LocationState {
+  cards: IFlashCard[];
+  showKnownLanguage: boolean;
+  sessionId?: string;
+  timeLimitMinutes?: number; // The session ends after the card answered once this time is up
 }
 
-// Types for the learning session state and actions
-interface LearningSessionState {
-  cards: CardWithFlipState[];
-  initialCards: CardWithFlipState[];
-  nextCardIndex: number;
-  discardedCards: CardWithFlipState[];
-  loading: boolean;
-  error: string | null;
+// Gesture settings of the card stack
+type GestureSettings = Pick<Settings, 'swipeActions' | 'mirrorSwipes' | 'swipeThreshold'>;
+
+// Hidden on screen but read by screen readers
+const visuallyHidden = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap'
+} as const;
+
+// Swipe animation of a TinderCard, used to grade the top card with the buttons
+interface TinderCardApi {
+  swipe(dir?: SwipeDirection): Promise<void>;
+  restoreCard(): Promise<void>;
 }
 
-type LearningSessionAction =
-  | { type: 'INITIALIZE_CARDS'; payload: IFlashCard[] }
-  | { type: 'CARD_LEFT_SCREEN'; cardId: string }
-  | { type: 'FLIP_CARD'; cardId: string }
-  | { type: 'UNDO' }
-  | { type: 'SET_ERROR'; error: string }
-  | { type: 'SET_LOADING'; loading: boolean }
-  | { type: 'UPDATE_CARD'; payload: CardWithFlipState };
-
-// Reducer function for handling all learning session state changes
-const learningSessionReducer = (state: LearningSessionState, action: LearningSessionAction): LearningSessionState => {
-  console.debug('Reducer action:', action);
-  switch (action.type) {
-    case 'INITIALIZE_CARDS': {
-      const shuffledCards = [...action.payload].sort(() => Math.random() - 0.5)
-        .map(card => ({ ...card, isFlipped: false }));
-      const initialCount = Math.min(4, shuffledCards.length);
-
-      return {
-        ...state,
-        initialCards: shuffledCards,
-        cards: shuffledCards.slice(0, initialCount).reverse(),
-        nextCardIndex: initialCount,
-        loading: false,
-        discardedCards: []
-      };
-    }
-
-    case 'CARD_LEFT_SCREEN': {
-      const discardedCard = state.cards.find(card => card.id === action.cardId);
-      if (!discardedCard) return state;
-
-      const remainingCards = state.cards.filter(card => card.id !== action.cardId);
-      const newDiscardedCards = [...state.discardedCards, discardedCard];
-
-      if (state.nextCardIndex < state.initialCards.length) {
-        const nextCard = state.initialCards[state.nextCardIndex];
-        return {
-          ...state,
-          cards: [{ ...nextCard, isFlipped: false }, ...remainingCards],
-          discardedCards: newDiscardedCards,
-          nextCardIndex: state.nextCardIndex + 1
-        };
-      }
-
-      return {
-        ...state,
-        cards: remainingCards,
-        discardedCards: newDiscardedCards,
-        nextCardIndex: state.nextCardIndex + 1,
-      };
-    }
-
-    case 'FLIP_CARD': {
-      return {
-        ...state,
-        cards: state.cards.map(card =>
-          card.id === action.cardId
-            ? { ...card, isFlipped: !card.isFlipped }
-            : card
-        )
-      };
-    }
-
-    case 'UNDO': {
-      console.debug('Undo action triggered');
-      if (state.discardedCards.length === 0) return state;
-
-      const lastDiscardedCard = state.discardedCards[state.discardedCards.length - 1];
-      const updatedCards = [...state.cards];
-
-      const initialCount = Math.min(4, state.initialCards.length);
-      if (updatedCards.length >= initialCount) {
-        updatedCards.shift();
-      }
-
-      return {
-        ...state,
-        discardedCards: state.discardedCards.slice(0, -1),
-        cards: [...updatedCards, { ...lastDiscardedCard, isFlipped: false, isRestoring: true }],
-        nextCardIndex: state.nextCardIndex > 0 ? state.nextCardIndex - 1 : 0
-      };
-    }
-
-    case 'SET_ERROR': {
-      return {
-        ...state,
-        error: action.error,
-        loading: false
-      };
-    }
+// Direction a button throws the card to when no swipe has its action
+const FALLBACK_DIRECTIONS: Record<SwipeAction, SwipeDirection> = {
+  again: 'left',
+  hard: 'down',
+  revisit: 'down',
+  good: 'right',
+  easy: 'up',
+  suspend: 'down',
+  bury: 'down',
+  skip: 'up'
+};
 
-    case 'SET_LOADING': {
-      return {
-        ...state,
-        loading: action.loading
-      };
-    }
+const GRADE_COLORS: Record<ReviewGrade, 'error' | 'warning' | 'success' | 'info'> = {
+  again: 'error',
+  hard: 'warning',
+  good: 'success',
+  easy: 'info'
+};
 
-    case 'UPDATE_CARD': {
-      return {
-        ...state,
-        cards: state.cards.map(card =>
-          card.id === action.payload.id ? action.payload : card
-        )
-      };
-    }
+const ACTION_TEXT_COLORS: Record<SwipeAction, string> = {
+  again: 'error.main',
+  hard: 'warning.main',
+  revisit: 'info.main',
+  good: 'success.main',
+  easy: 'info.main',
+  suspend: 'secondary.main',
+  bury: 'secondary.main',
+  skip: 'text.secondary'
+};
 
-    default:
-      return state;
-  }
+const ARROW_KEYS: Record<SwipeDirection, { key: string; label: string }> = {
+  left: { key: 'ArrowLeft', label: '←' },
+  right: { key: 'ArrowRight', label: '→' },
+  up: { key: 'ArrowUp', label: '↑' },
+  down: { key: 'ArrowDown', label: '↓' }
 };
 
-// Add type for the expected location state
-interface LocationState {
-  cards: IFlashCard[];
-  showKnownLanguage: boolean;
-}
+const DIRECTION_INSTRUCTIONS: Record<SwipeDirection, string> = {
+  left: '← Swipe left',
+  right: 'Swipe right →',
+  up: '↑ Swipe up',
+  down: '↓ Swipe down'
+};
 
 export const LearningSessionPage: React.FC = () => {
   const navigate = useNavigate();
@@ -149,76 +129,288 @@ export const LearningSessionPage: React.FC = () => {
   const colorScheme = useColorScheme();
   const touchStartRef = useRef<{ x: number; y: number } | null>(null);
   const isDraggingRef = useRef(false);
+  // Time at which each card reached the top of the stack, to measure response times
+  const shownAtRef = useRef<Record<string, number>>({});
   const [showKnownLanguage, setShowKnownLanguage] = useState(false);
-
-  const [state, dispatch] = useReducer(learningSessionReducer, {
-    cards: [],
-    initialCards: [],
-    nextCardIndex: 0,
-    discardedCards: [],
-    loading: true,
-    error: null
-  });
+  const [scheduler, setScheduler] = useState<Scheduler>(getScheduler('sm2'));
+  const [autoPlayPronunciation, setAutoPlayPronunciation] = useState(false);
+  const [gestures, setGestures] = useState<GestureSettings>(DEFAULT_SETTINGS);
+  const [dayRolloverHour, setDayRolloverHour] = useState(DEFAULT_SETTINGS.dayRolloverHour);
+  // Swipe animations of the cards in the stack, by card key
+  const cardApisRef = useRef<Record<string, TinderCardApi | null>>({});
+  // Action chosen with a button, done by the swipe it triggers whatever its direction
+  const pendingActionRef = useRef<SwipeAction | null>(null);
+  // Database writes of the answers by card key, so an undo waits for the answer it reverts
+  const pendingWritesRef = useRef<Record<string, Promise<ReviewRecord | undefined>>>({});
+  // Undo and redo run one at a time, so the same change is never reverted twice
+  const runHistoryTask = useExclusiveTask();
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [accessibleMode, setAccessibleMode] = useState(false);
+  const [reduceMotionSetting, setReduceMotionSetting] = useState(false);
+  const prefersReducedMotion = useMediaQuery('(prefers-reduced-motion: reduce)');
+  const reduceMotion = reduceMotionSetting || prefersReducedMotion;
+  // Cards answered with a button or a key leave at once instead of flying out
+  const instantAnswers = accessibleMode || reduceMotion;
+  // Text read by screen readers when the card or the progress changes
+  const [announcement, setAnnouncement] = useState('');
+  const flipButtonRef = useRef<HTMLButtonElement>(null);
+  const firstGradeButtonRef = useRef<HTMLButtonElement>(null);
+
+  const [state, dispatch] = useReducer(learningSessionReducer, initialLearningSessionState);
 
   useEffect(() => {
     console.debug('Learning session state updated:', state);
   }, [state])
 
+  // Load the scheduling algorithm, the pronunciation, gesture and accessibility preferences selected in the settings
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const settings = await getOrCreateSettings();
+        setScheduler(getScheduler(settings.schedulerAlgorithm));
+        setAutoPlayPronunciation(settings.autoPlayPronunciation);
+        setGestures(settings);
+        setDayRolloverHour(settings.dayRolloverHour);
+        setAccessibleMode(settings.accessibleMode);
+        setReduceMotionSetting(settings.reduceMotion);
+      } catch (err) {
+        console.error('Error loading settings:', err);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  // Record when the top card is shown
+  const topCardId = state.cards[state.cards.length - 1]?.id;
+  useEffect(() => {
+    if (topCardId) {
+      shownAtRef.current[topCardId] = Date.now();
+    }
+  }, [topCardId]);
+
+  // Pronounce the answer when the top card is flipped
+  const topCard = state.cards[state.cards.length - 1];
+  const flippedWord = topCard?.isFlipped ? (showKnownLanguage ? topCard.learning : topCard.known) : undefined;
+  const flippedLanguage = topCard && (showKnownLanguage ? topCard.learningLanguage : topCard.knownLanguage);
+  useEffect(() => {
+    if (autoPlayPronunciation && flippedWord && flippedLanguage) {
+      speak(flippedWord, flippedLanguage);
+    }
+  }, [autoPlayPronunciation, flippedWord, flippedLanguage]);
+
+  // Progress in distinct cards: a card put back for relearning is still remaining
+  const totalCount = new Set(state.initialCards.map(card => card.id)).size;
+  const remainingCount = new Set([
+    ...state.cards.map(card => card.id),
+    ...state.initialCards.slice(state.nextCardIndex).map(card => card.id)
+  ]).size;
+
+  // Announce the prompt with the progress, then the answer once flipped
+  const topCardKey = topCard && `${topCard.id}-${topCard.attempt ?? 0}`;
+  const promptWord = topCard && (showKnownLanguage ? topCard.known : topCard.learning);
+  const isSessionComplete = Boolean(state.completedAt);
+  useEffect(() => {
+    if (!topCardKey || !promptWord) {
+      setAnnouncement(isSessionComplete ? 'Session complete' : '');
+      return;
+    }
+    setAnnouncement(flippedWord
+      ? `Answer: ${flippedWord}`
+      : `${remainingCount} / ${totalCount} cards left. ${promptWord}`);
+  }, [topCardKey, promptWord, flippedWord, remainingCount, totalCount, isSessionComplete]);
+
+  // In accessible mode, move the focus to the flip button for each card, then to the grades once flipped
+  const isTopCardFlipped = topCard?.isFlipped ?? false;
+  useEffect(() => {
+    if (!accessibleMode || !topCardKey) return;
+    (isTopCardFlipped ? firstGradeButtonRef : flipButtonRef).current?.focus();
+  }, [accessibleMode, topCardKey, isTopCardFlipped]);
+
   const handleBackClick = useCallback(() => {
     navigate('/');
   }, [navigate]);
 
-  // Initialize cards and showKnownLanguage from location state
+  // Let the card being answered be the last one once the time is up
+  const { remainingMs, isTimeUp } = useSessionTimeLimit(state.startedAt, state.timeLimitMinutes, Boolean(state.completedAt));
   useEffect(() => {
-    const { cards: initialCards, showKnownLanguage: initialShowKnown } = (location.state as LocationState) ?? {
+    if (isTimeUp && !state.isTimeUp) {
+      dispatch({ type: 'TIME_UP' });
+    }
+  }, [isTimeUp, state.isTimeUp]);
+
+  // Start a follow-up session with some of the cards of this one
+  const handleRetry = useCallback((retryCards: IFlashCard[]) => {
+    navigate('/learning-session', {
+      state: {
+        cards: retryCards,
+        showKnownLanguage,
+        sessionId: generateId()
+      },
+      replace: true
+    });
+  }, [navigate, showKnownLanguage]);
+
+  // Initialize cards and showKnownLanguage from location state,
+  // or resume the unfinished session after a reload or when coming back to it
+  useEffect(() => {
+    const { cards: initialCards, showKnownLanguage: initialShowKnown, sessionId, timeLimitMinutes } = (location.state as LocationState) ?? {
       cards: [],
       showKnownLanguage: false
     };
 
-    if (!initialCards?.length) {
-      dispatch({ 
-        type: 'SET_ERROR', 
-        error: 'No cards available. Please go back and try different filters.' 
+    const initializeSession = async () => {
+      let sessionSettings: RelearningOptions & Pick<Settings, 'stackDepth'> = DEFAULT_SETTINGS;
+      try {
+        sessionSettings = await getOrCreateSettings();
+      } catch (err) {
+        console.error('Error loading settings:', err);
+      }
+
+      try {
+        // A reload keeps the location state: look for the saved session with the same id
+        const savedSession = initialCards?.length
+          ? (sessionId ? await getSession(sessionId) : null)
+          : await getActiveSession();
+        // Sessions of the other study modes are resumed on their own page
+        if (savedSession && (savedSession.mode ?? 'flip') === 'flip') {
+          const sessionCards = await getCardsByIds(savedSession.queueCardIds);
+          if (sessionCards.length) {
+            setShowKnownLanguage(savedSession.showKnownLanguage);
+            dispatch({
+              type: 'RESTORE_SESSION',
+              session: savedSession,
+              cards: sessionCards,
+              relearning: sessionSettings,
+              stackDepth: sessionSettings.stackDepth
+            });
+            return;
+          }
+        }
+      } catch (err) {
+        console.error('Error resuming session:', err);
+      }
+
+      if (!initialCards?.length) {
+        dispatch({ 
+          type: 'SET_ERROR', 
+          error: 'No cards available. Please go back and try different filters.' 
+        });
+        return;
+      }
+
+      setShowKnownLanguage(initialShowKnown);
+      dispatch({
+        type: 'INITIALIZE_CARDS',
+        payload: initialCards,
+        sessionId: sessionId ?? generateId(),
+        startedAt: new Date().toISOString(),
+        relearning: sessionSettings,
+        stackDepth: sessionSettings.stackDepth,
+        timeLimitMinutes
       });
-      return;
-    }
+    };
 
-    setShowKnownLanguage(initialShowKnown);
-    dispatch({ type: 'INITIALIZE_CARDS', payload: initialCards });
+    initializeSession();
   }, [location.state]);
 
-  const handleSwipe = useCallback(async (cardId: string, dir: string) => {
-    // Only handle left, right, and down swipes
-    if (dir !== 'left' && dir !== 'right' && dir !== 'down') return;
+  // Persist the session as it changes so it can be resumed
+  useSessionPersistence(state, showKnownLanguage, 'flip');
+
+  // Record what was done to a card. The card is updated before anything is awaited,
+  // so it is marked as answered before it leaves the stack.
+  const applyAction = useCallback((card: CardWithFlipState, action: SwipeAction, swipeDirection: SwipeDirection) => {
+    const write = (async (): Promise<ReviewRecord | undefined> => {
+      // Skipped, suspended and buried cards leave the stack without a review
+      if (action === 'skip' || action === 'suspend' || action === 'bury') {
+        dispatch({
+          type: 'UPDATE_CARD',
+          payload: { ...card, swipeDirection, action }
+        });
+        try {
+          if (action === 'suspend') {
+            await setCardsStatus([card.id], 'suspended');
+          } else if (action === 'bury') {
+            await setCardsStatus([card.id], 'buried', getBuriedUntil(dayRolloverHour));
+          }
+        } catch (err) {
+          console.error('Error changing card status:', err);
+        }
+        return undefined;
+      }
+
+      // Cards to revisit are graded from their outcome, like the answers given without a grade
+      const grade = action === 'revisit' ? undefined : action;
+      const outcome = grade ? getGradeOutcome(grade) : 'revisit';
+
+      // Set the swipe direction immediately
+      dispatch({
+        type: 'UPDATE_CARD',
+        payload: { ...card, swipeDirection, outcome, grade }
+      });
+
+      try {
+        // Update counters and schedule the next review
+        const shownAt = shownAtRef.current[card.id];
+        const { card: reviewedCard, record } = await reviewCard(card, outcome, scheduler, {
+          sessionId: state.sessionId,
+          direction: getStudyDirection(showKnownLanguage),
+          responseTimeMs: shownAt ? Date.now() - shownAt : undefined,
+          grade,
+          swipeDirection,
+          // Only the first answer of the session schedules the card
+          isRelearning: (card.attempt ?? 0) > 0
+        });
+        dispatch({ type: 'REVIEW_SAVED', cardId: card.id, card: reviewedCard, review: record });
+        await recordReviewStudy(record);
+        return record;
+      } catch (err) {
+        console.error('Error updating card:', err);
+        return undefined;
+      }
+    })();
+
+    pendingWritesRef.current[`${card.id}-${card.attempt ?? 0}`] = write;
+    return write;
+  }, [state.sessionId, scheduler, showKnownLanguage, dayRolloverHour]);
+
+  const handleSwipe = useCallback((cardId: string, dir: string) => {
+    const swipeDirection = SWIPE_DIRECTIONS.find(direction => direction === dir);
+    const action = pendingActionRef.current ?? (swipeDirection && getSwipeAction(gestures, swipeDirection));
+    pendingActionRef.current = null;
+    if (!swipeDirection || !action) return;
     
-    console.debug('Card swiped:', cardId, dir);
+    console.debug('Card swiped:', cardId, dir, action);
     const card = state.cards.find(c => c.id === cardId);
     if (!card) return;
 
-    // Set the swipe direction immediately
-    dispatch({
-      type: 'UPDATE_CARD',
-      payload: { ...card, swipeDirection: dir }
-    });
+    applyAction(card, action, swipeDirection);
+  }, [state.cards, gestures, applyAction]);
 
-    try {
-      if (dir === 'down') {
-        await updateCard({
-          ...card,
-          revisitCount: (card.revisitCount || 0) + 1
-        });
-      } else {
-        const isCorrect = dir === 'right';
-        await updateCard({
-          ...card,
-          correctCount: card.correctCount + (isCorrect ? 1 : 0),
-          wrongCount: card.wrongCount + (isCorrect ? 0 : 1)
-        });
-      }
-    } catch (err) {
-      console.error('Error updating card:', err);
+  // Throw the top card like a swipe would, unless it is already on its way out
+  const swipeTopCard = useCallback((dir: SwipeDirection, action: SwipeAction | null = null) => {
+    const card = state.cards[state.cards.length - 1];
+    if (!card || card.outcome || card.action) return;
+
+    if (instantAnswers) {
+      const cardAction = action ?? getSwipeAction(gestures, dir);
+      if (!cardAction) return;
+      applyAction(card, cardAction, dir);
+      dispatch({ type: 'CARD_LEFT_SCREEN', cardId: card.id });
+      return;
     }
-  }, [state.cards]);
+
+    const cardApi = cardApisRef.current[`${card.id}-${card.attempt ?? 0}`];
+    if (!cardApi) return;
+    pendingActionRef.current = action;
+    cardApi.swipe(dir);
+  }, [state.cards, instantAnswers, gestures, applyAction]);
+
+  // Act on the top card with a button: throw it in the direction of that action
+  const handleAction = useCallback((action: SwipeAction) => {
+    const dir = SWIPE_DIRECTIONS.find(direction => getSwipeAction(gestures, direction) === action) ?? FALLBACK_DIRECTIONS[action];
+    swipeTopCard(dir, action);
+  }, [gestures, swipeTopCard]);
 
   const handleCardLeftScreen = useCallback((cardId: string) => {
     const card = state.cards.find(c => c.id === cardId);
@@ -227,30 +419,48 @@ export const LearningSessionPage: React.FC = () => {
     dispatch({ type: 'CARD_LEFT_SCREEN', cardId });
   }, [state.cards]);
 
-  const handleUndo = useCallback(async () => {
-    if (state.discardedCards.length === 0) return;
-    
+  const handleUndo = useCallback(() => runHistoryTask(async () => {
     const lastCard = state.discardedCards[state.discardedCards.length - 1];
     if (!lastCard) return;
 
     try {
-      // Find the original card state from initialCards
-      const originalCard = state.initialCards.find(c => c.id === lastCard.id);
-      if (!originalCard) return;
-
-      // Revert the card to its original statistics
-      await updateCard({
-        ...lastCard,
-        correctCount: originalCard.correctCount,
-        wrongCount: originalCard.wrongCount,
-        revisitCount: originalCard.revisitCount || 0
-      });
-      
-      dispatch({ type: 'UNDO' });
+      // The answer may still be being written when the card left the stack right away
+      const review = lastCard.review ?? await pendingWritesRef.current[`${lastCard.id}-${lastCard.attempt ?? 0}`];
+
+      // Revert exactly what the swipe wrote, whatever happened to the card since
+      let restoredCard: IFlashCard = lastCard;
+      if (review) {
+        restoredCard = await undoReview(review);
+        await recordReviewStudy(review, -1);
+      } else if (lastCard.action === 'suspend' || lastCard.action === 'bury') {
+        // The card keeps the status it had when it was shown
+        [restoredCard] = await setCardsStatus([lastCard.id], lastCard.status, lastCard.buriedUntil);
+      }
+      dispatch({ type: 'UNDO', card: restoredCard });
     } catch (err) {
       console.error('Error updating card during undo:', err);
     }
-  }, [state.discardedCards, state.initialCards]);
+  }), [state.discardedCards, runHistoryTask]);
+
+  const handleRedo = useCallback(() => runHistoryTask(async () => {
+    const redoneCard = state.redoCards[state.redoCards.length - 1];
+    if (!redoneCard) return;
+
+    try {
+      let reviewedCard: IFlashCard = redoneCard;
+      if (redoneCard.review) {
+        reviewedCard = await redoReview(redoneCard.review);
+        await recordReviewStudy(redoneCard.review);
+      } else if (redoneCard.action === 'suspend') {
+        [reviewedCard] = await setCardsStatus([redoneCard.id], 'suspended');
+      } else if (redoneCard.action === 'bury') {
+        [reviewedCard] = await setCardsStatus([redoneCard.id], 'buried', getBuriedUntil(dayRolloverHour));
+      }
+      dispatch({ type: 'REDO', card: reviewedCard });
+    } catch (err) {
+      console.error('Error updating card during redo:', err);
+    }
+  }), [state.redoCards, dayRolloverHour, runHistoryTask]);
 
   const handleTouchStart = useCallback((e: React.TouchEvent) => {
     const touch = e.touches[0];
@@ -301,6 +511,46 @@ export const LearningSessionPage: React.FC = () => {
     }
   }, [state.cards]);
 
+  // Desktop controls: the arrow keys swipe the top card as configured for the gestures
+  const shortcuts: KeyboardShortcut[] = [
+    {
+      keys: [' '],
+      label: 'Space',
+      description: 'Flip the card',
+      handler: () => topCard && dispatch({ type: 'FLIP_CARD', cardId: topCard.id })
+    },
+    ...SWIPE_DIRECTIONS.flatMap(direction => {
+      const action = getSwipeAction(gestures, direction);
+      return action ? [{
+        keys: [ARROW_KEYS[direction].key],
+        label: ARROW_KEYS[direction].label,
+        description: SWIPE_ACTION_LABELS[action],
+        handler: () => swipeTopCard(direction)
+      }] : [];
+    }),
+    { keys: ['s'], label: 'S', description: 'Suspend the card', handler: () => handleAction('suspend') },
+    { keys: ['b'], label: 'B', description: 'Bury the card until tomorrow', handler: () => handleAction('bury') },
+    { keys: ['z'], label: 'Z / Ctrl+Z', description: 'Undo the last card', withCtrl: true, handler: handleUndo },
+    { keys: ['y'], label: 'Y / Ctrl+Y', description: 'Redo the last undone card', withCtrl: true, handler: handleRedo },
+    { keys: ['Escape'], label: 'Esc', description: 'Leave the session', handler: handleBackClick },
+    { keys: ['?'], label: '?', description: 'Show the keyboard shortcuts', handler: () => setShowShortcuts(true) }
+  ];
+  useKeyboardShortcuts(shortcuts, !showShortcuts);
+
+  const shortcutsDialog = (
+    <KeyboardShortcutsDialog
+      open={showShortcuts}
+      onClose={() => setShowShortcuts(false)}
+      shortcuts={shortcuts}
+    />
+  );
+
+  const liveRegion = (
+    <Box role="status" aria-live="polite" aria-atomic="true" sx={visuallyHidden}>
+      {announcement}
+    </Box>
+  );
+
   // Common card styles
   const cardStyles = {
     width: '300px',
@@ -351,6 +601,9 @@ export const LearningSessionPage: React.FC = () => {
         flexDirection: 'column',
         bgcolor: 'background.default'
       }}>
+        {shortcutsDialog}
+        {liveRegion}
+
         {/* Header */}
         <Box sx={{
           p: 2,
@@ -361,39 +614,63 @@ export const LearningSessionPage: React.FC = () => {
           <IconButton onClick={handleBackClick} color="primary">
             <ArrowBack />
           </IconButton>
-          <IconButton
-            onClick={handleUndo}
-            color="primary"
-            aria-label="undo last card"
-            disabled={state.discardedCards.length === 0}
-          >
-            <Undo />
-          </IconButton>
+          <Box>
+            <IconButton
+              onClick={handleUndo}
+              color="primary"
+              aria-label="undo last card"
+              disabled={state.discardedCards.length === 0}
+            >
+              <Undo />
+            </IconButton>
+            <IconButton
+              onClick={handleRedo}
+              color="primary"
+              aria-label="redo last undone card"
+              disabled={state.redoCards.length === 0}
+            >
+              <Redo />
+            </IconButton>
+            <IconButton
+              onClick={() => setShowShortcuts(true)}
+              color="primary"
+              aria-label="show keyboard shortcuts"
+            >
+              <Keyboard />
+            </IconButton>
+          </Box>
         </Box>
 
-        {/* Center content */}
-        <Box sx={{
-          flexGrow: 1,
-          display: 'flex',
-          flexDirection: 'column',
-          alignItems: 'center',
-          justifyContent: 'center',
-          p: 2,
-          gap: 2
-        }}>
-          <Typography variant="h6" align="center">
-            {hasCompletedSession 
-              ? "Congratulations! You've completed this learning session" 
-              : "No cards available for your current language settings"}
-          </Typography>
-          <Button
-            variant="contained"
-            onClick={() => navigate('/')}
-            startIcon={<ArrowBack />}
-          >
-            Back to Study
-          </Button>
-        </Box>
+        {hasCompletedSession ? (
+          <SessionSummary
+            answeredCards={state.discardedCards}
+            startedAt={state.startedAt}
+            completedAt={state.completedAt}
+            onRetry={handleRetry}
+            onBack={handleBackClick}
+          />
+        ) : (
+          <Box sx={{
+            flexGrow: 1,
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            p: 2,
+            gap: 2
+          }}>
+            <Typography variant="h6" align="center">
+              No cards available for your current language settings
+            </Typography>
+            <Button
+              variant="contained"
+              onClick={() => navigate('/')}
+              startIcon={<ArrowBack />}
+            >
+              Back to Study
+            </Button>
+          </Box>
+        )}
       </Box>
     );
   }
@@ -425,6 +702,12 @@ export const LearningSessionPage: React.FC = () => {
         >
           {word}
         </Typography>
+        <SpeakButton
+          text={word}
+          language={isKnownLanguage ? card.knownLanguage : card.learningLanguage}
+          size="medium"
+          color={textColor}
+        />
         {context && (
           <Typography
             variant="body1"
@@ -451,6 +734,9 @@ export const LearningSessionPage: React.FC = () => {
       flexDirection: 'column',
       bgcolor: 'background.default'
     }}>
+      {shortcutsDialog}
+      {liveRegion}
+
       {/* Header */}
       <Box sx={{
         position: 'absolute',
@@ -466,14 +752,45 @@ export const LearningSessionPage: React.FC = () => {
         <IconButton onClick={handleBackClick} color="primary">
           <ArrowBack />
         </IconButton>
-        <IconButton
-          onClick={handleUndo}
-          color="primary"
-          aria-label="undo last card"
-          disabled={state.discardedCards.length === 0}
-        >
-          <Undo />
-        </IconButton>
+        <Box>
+          <IconButton
+            onClick={() => handleAction('bury')}
+            color="primary"
+            aria-label="bury card until tomorrow"
+          >
+            <Bedtime />
+          </IconButton>
+          <IconButton
+            onClick={() => handleAction('suspend')}
+            color="primary"
+            aria-label="suspend card"
+          >
+            <Block />
+          </IconButton>
+          <IconButton
+            onClick={handleUndo}
+            color="primary"
+            aria-label="undo last card"
+            disabled={state.discardedCards.length === 0}
+          >
+            <Undo />
+          </IconButton>
+          <IconButton
+            onClick={handleRedo}
+            color="primary"
+            aria-label="redo last undone card"
+            disabled={state.redoCards.length === 0}
+          >
+            <Redo />
+          </IconButton>
+          <IconButton
+            onClick={() => setShowShortcuts(true)}
+            color="primary"
+            aria-label="show keyboard shortcuts"
+          >
+            <Keyboard />
+          </IconButton>
+        </Box>
       </Box>
 
       {/* Remaining Cards Count */}
@@ -484,8 +801,13 @@ export const LearningSessionPage: React.FC = () => {
         mb: 2
       }}>
         <Typography variant="h6">
-          {state.initialCards.length - state.discardedCards.length} / {state.initialCards.length}
+          {remainingCount} / {totalCount}
         </Typography>
+        {remainingMs !== null && (
+          <Box sx={{ display: 'flex', justifyContent: 'center' }}>
+            <SessionTimer remainingMs={remainingMs} />
+          </Box>
+        )}
       </Box>
 
       {/* Card Container */}
@@ -496,82 +818,122 @@ export const LearningSessionPage: React.FC = () => {
         justifyContent: 'center',
         p: 2,
       }}>
-        <Box sx={{
-          position: 'relative',
-          width: '300px',
-          height: '400px'
-        }}>
-          {state.cards.map((card, index) => {
-            const scale = 1 - (state.cards.length - 1 - index) * 0.01;
-            const translateY = (state.cards.length - 1 - index) * 4;
-
-            return (
-              <TinderCard
-                key={card.id}
-                onSwipe={(dir) => handleSwipe(card.id, dir)}
-                onCardLeftScreen={() => handleCardLeftScreen(card.id)}
-                preventSwipe={['up']}
-                swipeRequirementType="position"
-                swipeThreshold={100}
-              >
-                <div
-                  onClick={(e) => handleCardClick(card.id, e)}
-                  onTouchStart={handleTouchStart}
-                  onTouchMove={handleTouchMove}
-                  onTouchEnd={(e) => handleCardClick(card.id, e)}
-                  className={`pressable ${card.isRestoring ? 'card-restoring' : ''}`}
-                  style={{
-                    position: 'absolute',
-                    width: '100%',
-                    height: '100%',
-                    touchAction: 'none',
-                    cursor: 'pointer',
-                    WebkitTapHighlightColor: 'transparent',
-                    ...!card.isRestoring && {
-                      transform: `scale(${scale}) translateY(${translateY}px)`,
-                      transition: 'transform 0.2s ease-out'
-                    }
+        {accessibleMode ? (
+          <Stack spacing={2} alignItems="center">
+            <Box role="group" aria-label={topCard.isFlipped ? 'Answer' : 'Prompt'}>
+              {renderCardContent(topCard, !topCard.isFlipped)}
+            </Box>
+            <Button
+              ref={flipButtonRef}
+              variant="outlined"
+              startIcon={<Flip />}
+              onClick={() => dispatch({ type: 'FLIP_CARD', cardId: topCard.id })}
+            >
+              {topCard.isFlipped ? 'Show prompt' : 'Show answer'}
+            </Button>
+          </Stack>
+        ) : (
+          <Box sx={{
+            position: 'relative',
+            width: '300px',
+            height: '400px'
+          }}>
+            {state.cards.map((card, index) => {
+              const scale = 1 - (state.cards.length - 1 - index) * 0.01;
+              const translateY = (state.cards.length - 1 - index) * 4;
+
+              return (
+                <TinderCard
+                  key={`${card.id}-${card.attempt ?? 0}`}
+                  ref={(cardApi: TinderCardApi | null) => {
+                    cardApisRef.current[`${card.id}-${card.attempt ?? 0}`] = cardApi;
                   }}
+                  onSwipe={(dir) => handleSwipe(card.id, dir)}
+                  onCardLeftScreen={() => handleCardLeftScreen(card.id)}
+                  preventSwipe={SWIPE_DIRECTIONS.filter(direction => !getSwipeAction(gestures, direction))}
+                  swipeRequirementType="position"
+                  swipeThreshold={gestures.swipeThreshold}
                 >
-                  <ReactCardFlip
-                    isFlipped={card.isFlipped}
-                    flipDirection="horizontal"
-                    cardStyles={{
-                      front: { WebkitBackfaceVisibility: 'hidden', backfaceVisibility: 'hidden' },
-                      back: { WebkitBackfaceVisibility: 'hidden', backfaceVisibility: 'hidden' }
+                  <div
+                    onClick={(e) => handleCardClick(card.id, e)}
+                    onTouchStart={handleTouchStart}
+                    onTouchMove={handleTouchMove}
+                    onTouchEnd={(e) => handleCardClick(card.id, e)}
+                    className={`pressable ${card.isRestoring && !reduceMotion ? 'card-restoring' : ''}`}
+                    style={{
+                      position: 'absolute',
+                      width: '100%',
+                      height: '100%',
+                      touchAction: 'none',
+                      cursor: 'pointer',
+                      WebkitTapHighlightColor: 'transparent',
+                      ...!card.isRestoring && {
+                        transform: `scale(${scale}) translateY(${translateY}px)`,
+                        transition: reduceMotion ? undefined : 'transform 0.2s ease-out'
+                      }
                     }}
                   >
-                    {renderCardContent(card, true)}
-                    {renderCardContent(card, false)}
-                  </ReactCardFlip>
-                </div>
-              </TinderCard>
-            )
-          })}
-        </Box>
+                    {reduceMotion ? (
+                      renderCardContent(card, !card.isFlipped)
+                    ) : (
+                      <ReactCardFlip
+                        isFlipped={card.isFlipped}
+                        flipDirection="horizontal"
+                        cardStyles={{
+                          front: { WebkitBackfaceVisibility: 'hidden', backfaceVisibility: 'hidden' },
+                          back: { WebkitBackfaceVisibility: 'hidden', backfaceVisibility: 'hidden' }
+                        }}
+                      >
+                        {renderCardContent(card, true)}
+                        {renderCardContent(card, false)}
+                      </ReactCardFlip>
+                    )}
+                  </div>
+                </TinderCard>
+              )
+            })}
+          </Box>
+        )}
       </Box>
 
+      {/* Grade buttons, an alternative to swiping */}
+      <Stack direction="row" spacing={1} sx={{ px: 2, mb: 2, justifyContent: 'center' }}>
+        {REVIEW_GRADES.map((grade, index) => (
+          <Button
+            key={grade}
+            ref={index === 0 ? firstGradeButtonRef : undefined}
+            aria-label={SWIPE_ACTION_LABELS[grade]}
+            variant="contained"
+            color={GRADE_COLORS[grade]}
+            onClick={() => handleAction(grade)}
+            sx={{ flex: 1, maxWidth: 100 }}
+          >
+            {GRADE_LABELS[grade]}
+          </Button>
+        ))}
+      </Stack>
+
       {/* Instructions */}
-      <Box sx={{
-        display: 'flex',
-        flexDirection: 'column',
-        alignItems: 'center',
-        marginBottom: 2,
-        gap: 1,
-        px: 2
-      }}>
-        <Box sx={{ display: 'flex', gap: 4, mb: 1 }}>
-          <Typography variant="body2" color="error">
-            ← Swipe left if incorrect
-          </Typography>
-          <Typography variant="body2" color="success.main">
-            Swipe right if correct →
-          </Typography>
+      {!accessibleMode && (
+        <Box sx={{
+          display: 'flex',
+          flexWrap: 'wrap',
+          justifyContent: 'center',
+          marginBottom: 2,
+          columnGap: 4,
+          rowGap: 1,
+          px: 2
+        }}>
+          {SWIPE_DIRECTIONS.map(direction => {
+            const action = getSwipeAction(gestures, direction);
+            return action && (
+              <Typography key={direction} variant="body2" color={ACTION_TEXT_COLORS[action]}>
+                {DIRECTION_INSTRUCTIONS[direction]}: {SWIPE_ACTION_LABELS[action]}
+              </Typography>
+            );
+          })}
         </Box>
-        <Typography variant="body2" color="info.main">
-          ↓ Swipe down to mark for revision
-        </Typography>
-      </Box>
+      )}
     </Box>
   );
 };
\ No newline at end of file
@@ -0,0 +1,341 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Box, Paper, Typography, IconButton, Button, Stack, Divider, Chip } from '@mui/material';
+import { ArrowBack, Check, Close } from '@mui/icons-material';
+import { useNavigate, useLocation } from 'react-router';
+import {
+  IFlashCard,
+  ConfusedPair,
+  reviewCard,
+  generateId,
+  getStudyDirection,
+  getCardsByLanguages,
+  getConfusedPairs
+} from '../../services/cardService';
+import { recordReviewStudy } from '../../services/goalService';
+import { ReviewOutcome, Scheduler, getScheduler } from '../../services/schedulerService';
+import { getOrCreateSettings } from '../../services/settingsService';
+import { buildQuizOptions } from '../../services/quizService';
+import useColorScheme from '../../hooks/useColorScheme';
+import useSessionTimeLimit from '../../hooks/useSessionTimeLimit';
+import { SessionSummary } from './SessionSummary';
+import { SessionTimer } from './SessionTimer';
+
+interface LocationState {
+  cards: IFlashCard[];
+  showKnownLanguage: boolean;
+  sessionId?: string;
+  timeLimitMinutes?: number; // The session ends after the card answered once this time is up
+}
+
+interface AnsweredCard extends IFlashCard {
+  outcome: ReviewOutcome;
+}
+
+export const QuizSessionPage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const colorScheme = useColorScheme();
+  const shownAtRef = useRef(Date.now());
+
+  const [cards, setCards] = useState<IFlashCard[]>([]);
+  const [candidates, setCandidates] = useState<IFlashCard[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [chosenCardId, setChosenCardId] = useState<string | null>(null);
+  const [answeredCards, setAnsweredCards] = useState<AnsweredCard[]>([]);
+  const [confusedPairs, setConfusedPairs] = useState<ConfusedPair[]>([]);
+  const [showKnownLanguage, setShowKnownLanguage] = useState(false);
+  const [scheduler, setScheduler] = useState<Scheduler>(getScheduler('sm2'));
+  const [sessionId, setSessionId] = useState('');
+  const [startedAt, setStartedAt] = useState('');
+  const [completedAt, setCompletedAt] = useState<string | undefined>(undefined);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState<number | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  // Initialize the session from location state
+  useEffect(() => {
+    const { cards: sessionCards, showKnownLanguage: initialShowKnown, sessionId: initialSessionId, timeLimitMinutes: initialTimeLimit } =
+      (location.state as LocationState) ?? { cards: [], showKnownLanguage: false };
+
+    if (!sessionCards?.length) {
+      setError('No cards available. Please go back and try different filters.');
+      return;
+    }
+
+    setCards([...sessionCards].sort(() => Math.random() - 0.5));
+    setShowKnownLanguage(initialShowKnown);
+    setSessionId(initialSessionId ?? generateId());
+    setStartedAt(new Date().toISOString());
+    setTimeLimitMinutes(initialTimeLimit);
+    setCompletedAt(undefined);
+    setCurrentIndex(0);
+    setAnsweredCards([]);
+    setConfusedPairs([]);
+    setChosenCardId(null);
+    setError(null);
+  }, [location.state]);
+
+  // Load the scheduler and the cards of the language pair to draw the distractors from
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const settings = await getOrCreateSettings();
+        setScheduler(getScheduler(settings.schedulerAlgorithm));
+        setCandidates(await getCardsByLanguages(settings.knownLanguage, settings.learningLanguage));
+      } catch (err) {
+        console.error('Error loading quiz data:', err);
+      }
+    };
+
+    loadData();
+  }, []);
+
+  const currentCard = cards[currentIndex];
+  const { remainingMs, isTimeUp } = useSessionTimeLimit(startedAt, timeLimitMinutes, Boolean(completedAt));
+
+  // Options only change with the question, not when the answer is revealed
+  const options = useMemo(
+    () => (currentCard ? buildQuizOptions(currentCard, candidates, showKnownLanguage) : []),
+    [currentCard, candidates, showKnownLanguage]
+  );
+
+  const cardsById = useMemo(
+    () => new Map([...candidates, ...cards].map(card => [card.id, card])),
+    [candidates, cards]
+  );
+
+  // Measure the response time from the moment the question is shown
+  useEffect(() => {
+    if (currentCard) {
+      shownAtRef.current = Date.now();
+    }
+  }, [currentCard]);
+
+  // Show the cards most often mistaken for the ones of the session once it is over
+  useEffect(() => {
+    if (!completedAt) return;
+
+    const loadConfusedPairs = async () => {
+      try {
+        setConfusedPairs(await getConfusedPairs(cards.map(card => card.id)));
+      } catch (err) {
+        console.error('Error loading confused pairs:', err);
+      }
+    };
+
+    loadConfusedPairs();
+  }, [completedAt, cards]);
+
+  const handleBackClick = useCallback(() => {
+    navigate('/');
+  }, [navigate]);
+
+  const handleChoose = useCallback(async (option: IFlashCard) => {
+    if (!currentCard || chosenCardId) return;
+
+    const outcome: ReviewOutcome = option.id === currentCard.id ? 'correct' : 'wrong';
+    setChosenCardId(option.id);
+
+    try {
+      // Same update path as a swipe in the learning session
+      const { card: reviewedCard, record } = await reviewCard(currentCard, outcome, scheduler, {
+        sessionId,
+        direction: getStudyDirection(showKnownLanguage),
+        responseTimeMs: Date.now() - shownAtRef.current,
+        chosenCardId: outcome === 'wrong' ? option.id : undefined
+      });
+      await recordReviewStudy(record);
+      setAnsweredCards(prev => [...prev, { ...reviewedCard, outcome }]);
+    } catch (err) {
+      console.error('Error updating card:', err);
+      setAnsweredCards(prev => [...prev, { ...currentCard, outcome }]);
+    }
+  }, [currentCard, chosenCardId, showKnownLanguage, scheduler, sessionId]);
+
+  const handleNext = useCallback(() => {
+    setChosenCardId(null);
+    // A time-boxed session ends with the card answered when the time ran out
+    if (isTimeUp) {
+      setCompletedAt(new Date().toISOString());
+      setCurrentIndex(cards.length);
+      return;
+    }
+    if (currentIndex + 1 >= cards.length) {
+      setCompletedAt(new Date().toISOString());
+    }
+    setCurrentIndex(prev => prev + 1);
+  }, [currentIndex, cards.length, isTimeUp]);
+
+  // Start a follow-up session with some of the cards of this one
+  const handleRetry = useCallback((retryCards: IFlashCard[]) => {
+    navigate('/quiz-session', {
+      state: {
+        cards: retryCards,
+        showKnownLanguage,
+        sessionId: generateId()
+      },
+      replace: true
+    });
+  }, [navigate, showKnownLanguage]);
+
+  if (error) {
+    return (
+      <Box sx={{
+        height: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        p: 2
+      }}>
+        <Typography color="error">{error}</Typography>
+      </Box>
+    );
+  }
+
+  const getPrompt = (card: IFlashCard) => showKnownLanguage ? card.known : card.learning;
+  const getAnswer = (card: IFlashCard) => showKnownLanguage ? card.learning : card.known;
+
+  return (
+    <Box sx={{
+      height: '100vh',
+      display: 'flex',
+      flexDirection: 'column',
+      bgcolor: 'background.default'
+    }}>
+      {/* Header */}
+      <Box sx={{
+        p: 2,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+      }}>
+        <IconButton onClick={handleBackClick} color="primary">
+          <ArrowBack />
+        </IconButton>
+        {currentCard && (
+          <Typography variant="h6">
+            {cards.length - currentIndex} / {cards.length}
+          </Typography>
+        )}
+        {remainingMs !== null && currentCard ? (
+          <SessionTimer remainingMs={remainingMs} />
+        ) : (
+          <Box sx={{ width: 40 }} />
+        )}
+      </Box>
+
+      {!currentCard ? (
+        cards.length > 0 && (
+          <SessionSummary
+            answeredCards={answeredCards}
+            startedAt={startedAt}
+            completedAt={completedAt}
+            onRetry={handleRetry}
+            onBack={handleBackClick}
+          >
+            {confusedPairs.length > 0 && (
+              <Paper elevation={0} sx={{ width: '100%', maxWidth: 400, borderRadius: 2, p: 1.5 }}>
+                <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1 }}>
+                  Often confused
+                </Typography>
+                {confusedPairs.slice(0, 5).map((pair, index) => {
+                  const card = cardsById.get(pair.cardId);
+                  const confusedWith = cardsById.get(pair.confusedWithId);
+                  if (!card || !confusedWith) return null;
+                  return (
+                    <React.Fragment key={`${pair.cardId}-${pair.confusedWithId}`}>
+                      {index > 0 && <Divider />}
+                      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', py: 1, gap: 1 }}>
+                        <Box sx={{ minWidth: 0 }}>
+                          <Typography sx={{ color: colorScheme.learningWord, fontWeight: 600, wordBreak: 'break-word' }}>
+                            {card.learning} ≠ {confusedWith.learning}
+                          </Typography>
+                          <Typography variant="body2" sx={{ color: colorScheme.knownWord, wordBreak: 'break-word' }}>
+                            {card.known} ≠ {confusedWith.known}
+                          </Typography>
+                        </Box>
+                        <Chip size="small" variant="outlined" color="error" label={`×${pair.count}`} />
+                      </Box>
+                    </React.Fragment>
+                  );
+                })}
+              </Paper>
+            )}
+          </SessionSummary>
+        )
+      ) : (
+        <Box sx={{
+          flexGrow: 1,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          p: 2,
+          gap: 3
+        }}>
+          <Paper
+            elevation={8}
+            sx={{
+              width: '100%',
+              maxWidth: 400,
+              minHeight: 160,
+              borderRadius: 4,
+              p: 3,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              backgroundColor: showKnownLanguage ? colorScheme.knownWordBackground : colorScheme.learningWordBackground
+            }}
+          >
+            <Typography
+              variant="h4"
+              component="h2"
+              align="center"
+              sx={{
+                color: showKnownLanguage ? colorScheme.knownWord : colorScheme.learningWord,
+                wordBreak: 'break-word'
+              }}
+            >
+              {getPrompt(currentCard)}
+            </Typography>
+          </Paper>
+
+          <Stack spacing={1.5} sx={{ width: '100%', maxWidth: 400 }}>
+            {options.map(option => {
+              const isAnswer = option.id === currentCard.id;
+              const isChosen = option.id === chosenCardId;
+              const revealed = chosenCardId !== null;
+              return (
+                <Button
+                  key={option.id}
+                  variant={revealed && (isAnswer || isChosen) ? 'contained' : 'outlined'}
+                  color={revealed ? (isAnswer ? 'success' : isChosen ? 'error' : 'inherit') : 'primary'}
+                  size="large"
+                  startIcon={revealed && isAnswer ? <Check /> : revealed && isChosen ? <Close /> : undefined}
+                  onClick={() => handleChoose(option)}
+                  sx={{
+                    borderRadius: 2,
+                    textTransform: 'none',
+                    justifyContent: 'flex-start',
+                    pointerEvents: revealed ? 'none' : 'auto'
+                  }}
+                >
+                  {getAnswer(option)}
+                </Button>
+              );
+            })}
+          </Stack>
+
+          {chosenCardId && (
+            <Button
+              variant="contained"
+              size="large"
+              onClick={handleNext}
+              sx={{ px: 4, borderRadius: 2 }}
+            >
+              Next
+            </Button>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
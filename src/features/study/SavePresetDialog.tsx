@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material';
+import { SessionLimit } from '../../services/settingsService';
+
+interface SavePresetDialogProps {
+  open: boolean;
+  description: string;  // Summary of the filters, direction and mode saved with the preset
+  onClose: () => void;
+  onSave: (name: string, limit: SessionLimit) => void;
+}
+
+/**
+ * Dialog naming the current study options and choosing when sessions started from them end
+ */
+export const SavePresetDialog: React.FC<SavePresetDialogProps> = ({ open, description, onClose, onSave }) => {
+  const [name, setName] = useState('');
+  const [limitType, setLimitType] = useState<SessionLimit['type']>('minutes');
+  const [amount, setAmount] = useState(10);
+
+  // Start from a blank preset each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setLimitType('minutes');
+      setAmount(10);
+    }
+  }, [open]);
+
+  const handleSave = () => {
+    const limit: SessionLimit = limitType === 'minutes'
+      ? { type: 'minutes', minutes: amount }
+      : limitType === 'cards'
+        ? { type: 'cards', count: amount }
+        : { type: 'allDue' };
+    onSave(name.trim(), limit);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} aria-labelledby="save-preset-dialog-title" fullWidth maxWidth="xs">
+      <DialogTitle id="save-preset-dialog-title">
+        Save as Preset
+      </DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ pt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            {description}
+          </Typography>
+          <TextField
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            size="small"
+            autoFocus
+            fullWidth
+          />
+          <FormControl fullWidth size="small">
+            <InputLabel id="preset-limit-label">Ends</InputLabel>
+            <Select
+              labelId="preset-limit-label"
+              id="preset-limit"
+              value={limitType}
+              label="Ends"
+              onChange={(e) => setLimitType(e.target.value as SessionLimit['type'])}
+            >
+              <MenuItem value="minutes">After some minutes</MenuItem>
+              <MenuItem value="cards">After some cards</MenuItem>
+              <MenuItem value="allDue">When all due cards are done</MenuItem>
+            </Select>
+          </FormControl>
+          {limitType !== 'allDue' && (
+            <TextField
+              label={limitType === 'minutes' ? 'Minutes' : 'Cards'}
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(Math.max(1, Math.round(Number(e.target.value)) || 1))}
+              size="small"
+              inputProps={{ min: 1 }}
+              fullWidth
+            />
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained" disabled={!name.trim()}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
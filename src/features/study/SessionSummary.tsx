@@ -0,0 +1,167 @@
+import React, { useMemo } from 'react';
+import { Box, Typography, Button, Paper, Stack, Chip, Divider } from '@mui/material';
+import { ArrowBack, Replay } from '@mui/icons-material';
+import { IFlashCard } from '../../services/cardService';
+import { ReviewGrade, ReviewOutcome } from '../../services/schedulerService';
+import useColorScheme from '../../hooks/useColorScheme';
+
+interface AnsweredCard extends IFlashCard {
+  outcome?: ReviewOutcome;
+  grade?: ReviewGrade;
+}
+
+interface SessionSummaryProps {
+  answeredCards: AnsweredCard[];
+  startedAt: string;
+  completedAt?: string;
+  onRetry: (cards: IFlashCard[]) => void;
+  onBack: () => void;
+  children?: React.ReactNode; // Mode-specific details shown above the list of cards
+}
+
+const OUTCOME_LABELS: Record<ReviewOutcome, { label: string; color: 'success' | 'error' | 'info' }> = {
+  correct: { label: 'Correct', color: 'success' },
+  wrong: { label: 'Wrong', color: 'error' },
+  revisit: { label: 'Revisit', color: 'info' }
+};
+
+// Cards recalled with difficulty are correct but worth revisiting
+const HARD_LABEL = { label: 'Hard', color: 'info' as const };
+
+const isToRevisit = (card: AnsweredCard) => card.outcome === 'revisit' || card.grade === 'hard';
+
+const formatDuration = (durationMs: number) => {
+  const totalSeconds = Math.max(0, Math.round(durationMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const SessionSummary: React.FC<SessionSummaryProps> = ({
+  answeredCards,
+  startedAt,
+  completedAt,
+  onRetry,
+  onBack,
+  children
+}) => {
+  const colorScheme = useColorScheme();
+
+  // Keep the first outcome of each card: cards put back for relearning end up correct.
+  // Cards skipped, suspended or buried without an answer are left out.
+  const results = useMemo(() => {
+    const resultsById = new Map<string, AnsweredCard>();
+    answeredCards.forEach(card => {
+      if (card.outcome && !resultsById.has(card.id)) {
+        resultsById.set(card.id, card);
+      }
+    });
+    return Array.from(resultsById.values());
+  }, [answeredCards]);
+
+  const correctCards = results.filter(card => card.outcome === 'correct' && !isToRevisit(card));
+  const wrongCards = results.filter(card => card.outcome === 'wrong');
+  const revisitCards = results.filter(isToRevisit);
+  const recalledCount = results.filter(card => card.outcome === 'correct').length;
+  const accuracy = results.length > 0 ? Math.round(recalledCount / results.length * 100) : 0;
+  const duration = formatDuration(
+    new Date(completedAt ?? Date.now()).getTime() - new Date(startedAt).getTime()
+  );
+
+  return (
+    <Box sx={{
+      flexGrow: 1,
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      p: 2,
+      gap: 2,
+      minHeight: 0,
+      overflowY: 'auto'
+    }}>
+      <Typography variant="h6" align="center">
+        Congratulations! You've completed this learning session
+      </Typography>
+
+      <Paper elevation={0} sx={{ p: 2, width: '100%', maxWidth: 400, borderRadius: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-around', textAlign: 'center' }}>
+          <Box>
+            <Typography variant="h4" color="primary" sx={{ fontWeight: 700 }}>
+              {accuracy}%
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Accuracy
+            </Typography>
+          </Box>
+          <Box>
+            <Typography variant="h4" color="primary" sx={{ fontWeight: 700 }}>
+              {duration}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Duration
+            </Typography>
+          </Box>
+        </Box>
+        <Box sx={{ display: 'flex', justifyContent: 'center', gap: 1, mt: 2 }}>
+          <Chip size="small" color="success" label={`${correctCards.length} correct`} />
+          <Chip size="small" color="error" label={`${wrongCards.length} wrong`} />
+          <Chip size="small" color="info" label={`${revisitCards.length} revisit`} />
+        </Box>
+      </Paper>
+
+      <Stack spacing={1} sx={{ width: '100%', maxWidth: 400 }}>
+        <Button
+          variant="contained"
+          color="error"
+          startIcon={<Replay />}
+          onClick={() => onRetry(wrongCards)}
+          disabled={wrongCards.length === 0}
+        >
+          Retry Wrong Cards ({wrongCards.length})
+        </Button>
+        <Button
+          variant="contained"
+          color="info"
+          startIcon={<Replay />}
+          onClick={() => onRetry(revisitCards)}
+          disabled={revisitCards.length === 0}
+        >
+          Retry Revisit Cards ({revisitCards.length})
+        </Button>
+        <Button
+          variant="outlined"
+          onClick={onBack}
+          startIcon={<ArrowBack />}
+        >
+          Back to Study
+        </Button>
+      </Stack>
+
+      {children}
+
+      <Paper elevation={0} sx={{ width: '100%', maxWidth: 400, borderRadius: 2 }}>
+        {results.map((card, index) => {
+          const outcome = card.grade === 'hard' ? HARD_LABEL : card.outcome ? OUTCOME_LABELS[card.outcome] : undefined;
+          return (
+            <React.Fragment key={card.id}>
+              {index > 0 && <Divider />}
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', p: 1.5, gap: 1 }}>
+                <Box sx={{ minWidth: 0 }}>
+                  <Typography sx={{ color: colorScheme.learningWord, fontWeight: 600, wordBreak: 'break-word' }}>
+                    {card.learning}
+                  </Typography>
+                  <Typography variant="body2" sx={{ color: colorScheme.knownWord, wordBreak: 'break-word' }}>
+                    {card.known}
+                  </Typography>
+                </Box>
+                {outcome && (
+                  <Chip size="small" variant="outlined" color={outcome.color} label={outcome.label} />
+                )}
+              </Box>
+            </React.Fragment>
+          );
+        })}
+      </Paper>
+    </Box>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { Timer } from '@mui/icons-material';
+
+interface SessionTimerProps {
+  remainingMs: number;
+}
+
+// Formats a duration as minutes and seconds (e.g., 4:05)
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Time left in a time-boxed session, the current card being the last once it is up
+ */
+export const SessionTimer: React.FC<SessionTimerProps> = ({ remainingMs }) => (
+  <Box
+    role="timer"
+    aria-label={remainingMs > 0 ? `${formatRemaining(remainingMs)} left` : 'Time is up, last card'}
+    sx={{
+      minWidth: 40,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'flex-end',
+      gap: 0.5,
+      color: remainingMs > 0 ? 'text.secondary' : 'warning.main'
+    }}
+  >
+    <Timer fontSize="small" />
+    <Typography variant="body2" sx={{ fontVariantNumeric: 'tabular-nums' }}>
+      {remainingMs > 0 ? formatRemaining(remainingMs) : 'Last card'}
+    </Typography>
+  </Box>
+);
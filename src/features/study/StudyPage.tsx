@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { 
   Box, 
   Typography, 
@@ -13,14 +13,49 @@ import {
   Stack,
   styled,
   ToggleButtonGroup,
-  ToggleButton
+  ToggleButton,
+  Tooltip
 } from '@mui/material';
-import { Add, PlayArrow } from '@mui/icons-material';
+import { Add, PlayArrow, Today, History, BookmarkAdd } from '@mui/icons-material';
 import { useNavigate } from 'react-router';
-import { IFlashCard, getCards } from '../../services/cardService';
-import { useFilter } from '../../context/FilterContext';
+import {
+  IFlashCard,
+  getCards,
+  generateId,
+  getCardProgress,
+  isCardStudiable,
+  purgeExpiredTrash
+} from '../../services/cardService';
+import { detectLeeches } from '../../services/leechService';
+import { useFilter, FilterCriteria, filterCards } from '../../context/FilterContext';
+import { MATURITY_LABELS, MATURITY_STATES } from '../../services/maturityService';
 import useColorScheme from '../../hooks/useColorScheme';
-import { getOrCreateSettings, Settings } from '../../services/settingsService';
+import {
+  getOrCreateSettings,
+  updateSettings,
+  Settings,
+  DEFAULT_SETTINGS,
+  SessionLimit,
+  SessionPreset
+} from '../../services/settingsService';
+import { isDueToday } from '../../services/schedulerService';
+import {
+  getActiveSession,
+  getModeDirection,
+  getRemainingCardCount,
+  PersistedSession,
+  StudyMode,
+  STUDY_MODE_LABELS
+} from '../../services/sessionService';
+import { getGoalProgress, getTodayStudy, GoalProgress, StudyDay } from '../../services/goalService';
+import {
+  buildSessionQueue,
+  QUEUE_CATEGORIES,
+  QUEUE_CATEGORY_LABELS,
+  SessionQueue
+} from '../../services/sessionBuilderService';
+import { DailyGoalRing } from './DailyGoalRing';
+import { SavePresetDialog } from './SavePresetDialog';
 
 const CustomSwitch = styled(Switch)(({ theme }) => ({
   '& .MuiSwitch-switchBase': {
@@ -39,33 +74,124 @@ const CustomSwitch = styled(Switch)(({ theme }) => ({
   },
 }));
 
+const STUDY_MODE_ROUTES: Record<StudyMode, string> = {
+  flip: '/learning-session',
+  typed: '/typed-session',
+  quiz: '/quiz-session',
+  cloze: '/cloze-session',
+  audio: '/audio-session'
+};
+
+// Short description of when a preset session ends
+const getSessionLimitLabel = (limit: SessionLimit) => {
+  switch (limit.type) {
+    case 'minutes':
+      return `${limit.minutes} min`;
+    case 'cards':
+      return `${limit.count} ${limit.count === 1 ? 'card' : 'cards'}`;
+    case 'allDue':
+      return 'All due';
+  }
+};
+
+// Study options summed up, to tell presets apart
+const describeStudyOptions = (
+  options: Pick<SessionPreset, 'tags' | 'maturityFilter' | 'showKnownLanguage' | 'mode'>,
+  settings: Pick<Settings, 'knownLanguage' | 'learningLanguage'>
+) => [
+  options.tags.length ? options.tags.join(', ') : 'All tags',
+  options.maturityFilter === 'all' ? 'any maturity' : MATURITY_LABELS[options.maturityFilter].toLowerCase(),
+  options.showKnownLanguage
+    ? `${settings.knownLanguage} first`
+    : `${settings.learningLanguage} first`,
+  STUDY_MODE_LABELS[options.mode].toLowerCase()
+].join(' · ');
+
 export const StudyPage: React.FC = () => {
   const navigate = useNavigate();
   const colorScheme = useColorScheme();
   const { currentFilter, setFilter, applyFilter } = useFilter();
   const [availableTags, setAvailableTags] = useState<string[]>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>(currentFilter.tags || []);
-  const [performanceFilter, setPerformanceFilter] = useState<'struggling' | 'mastered' | 'all'>(
-    currentFilter.performanceFilter || 'all'
+  const [maturityFilter, setMaturityFilter] = useState<NonNullable<FilterCriteria['maturityFilter']>>(
+    currentFilter.maturityFilter || 'all'
   );
   const [showKnownLanguage, setShowKnownLanguage] = useState(false);
+  const [studyMode, setStudyMode] = useState<StudyMode>('flip');
   const [settings, setSettings] = useState<Settings | null>(null);
   const [cards, setCards] = useState<IFlashCard[]>([]);
   const [filteredCards, setFilteredCards] = useState<IFlashCard[]>([]);
+  const [activeSession, setActiveSession] = useState<PersistedSession | null>(null);
+  const [goalProgress, setGoalProgress] = useState<GoalProgress | null>(null);
+  const [todayStudy, setTodayStudy] = useState<Pick<StudyDay, 'reviewCount' | 'newCardCount'>>({ reviewCount: 0, newCardCount: 0 });
+  const [isSavePresetOpen, setIsSavePresetOpen] = useState(false);
+  const dayRolloverHour = (settings ?? DEFAULT_SETTINGS).dayRolloverHour;
+  const studyDirection = getModeDirection(studyMode, showKnownLanguage);
+  const dueCards = useMemo(
+    () => filteredCards.filter(card =>
+      isDueToday(getCardProgress(card, studyDirection), new Date(), dayRolloverHour)
+    ),
+    [filteredCards, studyDirection, dayRolloverHour]
+  );
+  // Sessions are built within the daily limits, the most urgent cards first
+  const sessionQueue = useMemo(
+    () => buildSessionQueue(filteredCards, studyDirection, settings ?? DEFAULT_SETTINGS, todayStudy),
+    [filteredCards, studyDirection, settings, todayStudy]
+  );
+  const dueQueue = useMemo(
+    () => buildSessionQueue(dueCards, studyDirection, settings ?? DEFAULT_SETTINGS, todayStudy),
+    [dueCards, studyDirection, settings, todayStudy]
+  );
+  // Queue of each preset, built from its own filters rather than the ones selected on the page
+  const presetQueues = useMemo(() => {
+    const currentSettings = settings ?? DEFAULT_SETTINGS;
+    return new Map<string, SessionQueue>(currentSettings.sessionPresets.map(preset => {
+      const direction = getModeDirection(preset.mode, preset.showKnownLanguage);
+      const matchingCards = filterCards(cards, {
+        tags: preset.tags,
+        maturityFilter: preset.maturityFilter,
+        direction
+      });
+      const presetCards = preset.limit.type === 'allDue'
+        ? matchingCards.filter(card => isDueToday(getCardProgress(card, direction), new Date(), currentSettings.dayRolloverHour))
+        : matchingCards;
+      // Only the daily limits stop a session ending with the time or the due cards
+      const maxSessionSize = preset.limit.type === 'cards' ? preset.limit.count : Infinity;
+      return [preset.id, buildSessionQueue(presetCards, direction, { ...currentSettings, maxSessionSize }, todayStudy)];
+    }));
+  }, [cards, settings, todayStudy]);
 
   // Load settings and cards when component mounts
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [allCards, userSettings] = await Promise.all([
-          getCards(),
-          getOrCreateSettings()
-        ]);
+        const userSettings = await getOrCreateSettings();
+        try {
+          setGoalProgress(await getGoalProgress(userSettings));
+          setTodayStudy(await getTodayStudy(userSettings.dayRolloverHour));
+        } catch (error) {
+          console.error('Error loading goal progress:', error);
+        }
+        // Flag the cards that became leeches, they may be suspended
+        try {
+          await detectLeeches(userSettings);
+        } catch (error) {
+          console.error('Error detecting leeches:', error);
+        }
+        // Cards kept in the trash long enough are deleted for good
+        try {
+          await purgeExpiredTrash(userSettings.trashRetentionDays);
+        } catch (error) {
+          console.error('Error purging expired trash:', error);
+        }
+        const allCards = await getCards();
         
+        // Suspended and buried cards are kept out of study
         const languageFilteredCards = allCards.filter(
           card => 
             card.knownLanguage === userSettings.knownLanguage && 
-            card.learningLanguage === userSettings.learningLanguage
+            card.learningLanguage === userSettings.learningLanguage &&
+            isCardStudiable(card)
         );
         
         const allTags = new Set<string>();
@@ -81,16 +207,26 @@ export const StudyPage: React.FC = () => {
       }
     };
     
+    const loadActiveSession = async () => {
+      try {
+        setActiveSession(await getActiveSession());
+      } catch (error) {
+        console.error('Error loading active session:', error);
+      }
+    };
+    
     loadData();
+    loadActiveSession();
   }, []);
 
   useEffect(() => {
     console.debug('Updating filter with selected tags:', selectedTags);
     setFilter({ 
       tags: selectedTags,
-      performanceFilter 
+      maturityFilter,
+      direction: studyDirection
     });
-  }, [selectedTags, performanceFilter, setFilter]);
+  }, [selectedTags, maturityFilter, studyDirection, setFilter]);
 
   useEffect(() => {
     if (cards.length > 0) {
@@ -103,14 +239,77 @@ export const StudyPage: React.FC = () => {
   };
 
   const handleStartSession = useCallback(() => {
-    navigate('/learning-session', {
+    navigate(STUDY_MODE_ROUTES[studyMode], {
       state: { 
-        cards: filteredCards,
-        showKnownLanguage 
+        cards: sessionQueue.cards,
+        showKnownLanguage,
+        sessionId: generateId()
+      },
+      replace: true
+    });
+  }, [sessionQueue, showKnownLanguage, studyMode, navigate]);
+
+  const handleStartDueSession = useCallback(() => {
+    navigate(STUDY_MODE_ROUTES[studyMode], {
+      state: {
+        cards: dueQueue.cards,
+        showKnownLanguage,
+        sessionId: generateId()
+      },
+      replace: true
+    });
+  }, [dueQueue, showKnownLanguage, studyMode, navigate]);
+
+  const handleStartPreset = useCallback((preset: SessionPreset) => {
+    navigate(STUDY_MODE_ROUTES[preset.mode], {
+      state: {
+        cards: presetQueues.get(preset.id)?.cards ?? [],
+        showKnownLanguage: preset.showKnownLanguage,
+        sessionId: generateId(),
+        timeLimitMinutes: preset.limit.type === 'minutes' ? preset.limit.minutes : undefined
       },
       replace: true
     });
-  }, [filteredCards, showKnownLanguage, navigate]);
+  }, [presetQueues, navigate]);
+
+  const savePresets = useCallback(async (sessionPresets: SessionPreset[]) => {
+    try {
+      await updateSettings({ sessionPresets });
+      setSettings(prev => prev && { ...prev, sessionPresets });
+    } catch (error) {
+      console.error('Error saving session presets:', error);
+    }
+  }, []);
+
+  // Save the options selected on the page as a preset
+  const handleSavePreset = useCallback((name: string, limit: SessionLimit) => {
+    if (!settings) return;
+
+    setIsSavePresetOpen(false);
+    savePresets([
+      ...settings.sessionPresets,
+      {
+        id: generateId(),
+        name,
+        tags: selectedTags,
+        maturityFilter,
+        showKnownLanguage,
+        mode: studyMode,
+        limit
+      }
+    ]);
+  }, [settings, selectedTags, maturityFilter, showKnownLanguage, studyMode, savePresets]);
+
+  const handleDeletePreset = useCallback((presetId: string) => {
+    if (!settings) return;
+    savePresets(settings.sessionPresets.filter(preset => preset.id !== presetId));
+  }, [settings, savePresets]);
+
+  const handleResumeSession = useCallback(() => {
+    if (!activeSession) return;
+    // Without cards, the session page of the mode resumes the persisted session
+    navigate(STUDY_MODE_ROUTES[activeSession.mode ?? 'flip'], { replace: true });
+  }, [activeSession, navigate]);
 
   return (
     <Box sx={{ 
@@ -126,6 +325,60 @@ export const StudyPage: React.FC = () => {
       <Typography variant="h5" component="h1" align="center" gutterBottom>
         Ready to Study?
       </Typography>
+
+      {goalProgress && <DailyGoalRing progress={goalProgress} />}
+
+      {/* One-tap presets */}
+      {settings && (
+        <Box sx={{ width: '100%', maxWidth: 400 }}>
+          <Typography
+            variant="subtitle2"
+            color={colorScheme.tagText}
+            sx={{ fontWeight: 600, mb: 1 }}
+          >
+            QUICK START
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+            {settings.sessionPresets.map(preset => {
+              const cardCount = presetQueues.get(preset.id)?.cards.length ?? 0;
+              return (
+                <Tooltip
+                  key={preset.id}
+                  title={`${getSessionLimitLabel(preset.limit)} · ${describeStudyOptions(preset, settings)}`}
+                >
+                  {/* Presets without cards to study can still be deleted */}
+                  <Chip
+                    icon={<PlayArrow />}
+                    label={preset.name}
+                    color="primary"
+                    variant="outlined"
+                    onClick={cardCount > 0 ? () => handleStartPreset(preset) : undefined}
+                    onDelete={() => handleDeletePreset(preset.id)}
+                    aria-label={`Start ${preset.name}, ${cardCount} ${cardCount === 1 ? 'card' : 'cards'}`}
+                    sx={{ opacity: cardCount > 0 ? 1 : 0.5 }}
+                  />
+                </Tooltip>
+              );
+            })}
+            <Chip
+              icon={<BookmarkAdd />}
+              label="Save current"
+              variant="outlined"
+              onClick={() => setIsSavePresetOpen(true)}
+            />
+          </Box>
+        </Box>
+      )}
+
+      <SavePresetDialog
+        open={isSavePresetOpen}
+        description={describeStudyOptions(
+          { tags: selectedTags, maturityFilter, showKnownLanguage, mode: studyMode },
+          settings ?? DEFAULT_SETTINGS
+        )}
+        onClose={() => setIsSavePresetOpen(false)}
+        onSave={handleSavePreset}
+      />
       
       <Paper 
         elevation={0}
@@ -144,25 +397,25 @@ export const StudyPage: React.FC = () => {
               color={colorScheme.tagText}
               sx={{ fontWeight: 600, mb: 1 }}
             >
-              PERFORMANCE FILTER
+              MATURITY
             </Typography>
             <ToggleButtonGroup
-              value={performanceFilter}
+              value={maturityFilter}
               exclusive
-              onChange={(_, value) => value && setPerformanceFilter(value)}
+              onChange={(_, value) => value && setMaturityFilter(value)}
               fullWidth
               color="primary"
               size="small"
+              sx={{ '& .MuiToggleButton-root': { px: 0.5, fontSize: '0.75rem' } }}
             >
               <ToggleButton value="all">
                 All
               </ToggleButton>
-              <ToggleButton value="struggling">
-                Need Practice
-              </ToggleButton>
-              <ToggleButton value="mastered">
-                Well Learned
-              </ToggleButton>
+              {MATURITY_STATES.map(state => (
+                <ToggleButton key={state} value={state}>
+                  {MATURITY_LABELS[state]}
+                </ToggleButton>
+              ))}
             </ToggleButtonGroup>
           </Box>
 
@@ -206,6 +459,40 @@ export const StudyPage: React.FC = () => {
             />
           </Box>
 
+          <Box>
+            <Typography 
+              variant="subtitle2" 
+              color={colorScheme.tagText}
+              sx={{ fontWeight: 600, mb: 1 }}
+            >
+              STUDY MODE
+            </Typography>
+            <ToggleButtonGroup
+              value={studyMode}
+              exclusive
+              onChange={(_, value) => value && setStudyMode(value)}
+              fullWidth
+              color="primary"
+              size="small"
+            >
+              <ToggleButton value="flip">
+                Flip
+              </ToggleButton>
+              <ToggleButton value="typed">
+                Type
+              </ToggleButton>
+              <ToggleButton value="quiz">
+                Quiz
+              </ToggleButton>
+              <ToggleButton value="cloze">
+                Cloze
+              </ToggleButton>
+              <ToggleButton value="audio">
+                Audio
+              </ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+
           <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
             <Typography 
               variant="body2" 
@@ -277,14 +564,53 @@ export const StudyPage: React.FC = () => {
               {filteredCards.length === 1 ? 'Card' : 'Cards'}
             </Typography>
           </Box>
+
+          {/* Make-up of the next session */}
+          <Box>
+            <Typography variant="body2" color="text.secondary" align="center" sx={{ mb: 1 }}>
+              Next session: {sessionQueue.cards.length} {sessionQueue.cards.length === 1 ? 'card' : 'cards'}
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: 1 }}>
+              {QUEUE_CATEGORIES.filter(category => sessionQueue.counts[category] > 0).map(category => (
+                <Chip
+                  key={category}
+                  size="small"
+                  variant="outlined"
+                  label={`${sessionQueue.counts[category]} ${QUEUE_CATEGORY_LABELS[category].toLowerCase()}`}
+                />
+              ))}
+            </Box>
+            {sessionQueue.heldBack > 0 && (
+              <Typography variant="caption" color="text.secondary" component="p" align="center" sx={{ mt: 1 }}>
+                {sessionQueue.heldBack} held back by the daily limits and the session size
+              </Typography>
+            )}
+          </Box>
         </Stack>
       </Paper>
       
+      {activeSession && (
+        <Button
+          variant="contained"
+          color="secondary"
+          size="large"
+          startIcon={<History />}
+          onClick={handleResumeSession}
+          sx={{
+            px: 4,
+            borderRadius: 2
+          }}
+        >
+          Resume Session ({getRemainingCardCount(activeSession)} left)
+        </Button>
+      )}
+
       <Button
         variant="contained"
         size="large"
         startIcon={<PlayArrow />}
         onClick={handleStartSession}
+        disabled={sessionQueue.cards.length === 0}
         sx={{
           px: 4,
           py: 2,
@@ -295,6 +621,20 @@ export const StudyPage: React.FC = () => {
       >
         Start Session
       </Button>
+
+      <Button
+        variant="outlined"
+        size="large"
+        startIcon={<Today />}
+        onClick={handleStartDueSession}
+        disabled={dueQueue.cards.length === 0}
+        sx={{
+          px: 4,
+          borderRadius: 2
+        }}
+      >
+        Due Today ({dueQueue.cards.length})
+      </Button>
       
       <Fab
         color="primary"
@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Box, Paper, Typography, IconButton, Button, TextField } from '@mui/material';
+import { ArrowBack } from '@mui/icons-material';
+import { useNavigate, useLocation } from 'react-router';
+import { IFlashCard, reviewCard, generateId, getStudyDirection } from '../../services/cardService';
+import { recordReviewStudy } from '../../services/goalService';
+import { ReviewOutcome, Scheduler, getScheduler } from '../../services/schedulerService';
+import { getOrCreateSettings } from '../../services/settingsService';
+import { GradedAnswer, gradeAnswer } from '../../services/answerGrading';
+import useColorScheme from '../../hooks/useColorScheme';
+import useSessionTimeLimit from '../../hooks/useSessionTimeLimit';
+import { SessionSummary } from './SessionSummary';
+import { SessionTimer } from './SessionTimer';
+import { AnswerFeedback } from './AnswerFeedback';
+
+interface LocationState {
+  cards: IFlashCard[];
+  showKnownLanguage: boolean;
+  sessionId?: string;
+  timeLimitMinutes?: number; // The session ends after the card answered once this time is up
+}
+
+interface AnsweredCard extends IFlashCard {
+  outcome: ReviewOutcome;
+}
+
+export const TypedAnswerSessionPage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const colorScheme = useColorScheme();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const shownAtRef = useRef(Date.now());
+
+  const [cards, setCards] = useState<IFlashCard[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [gradedAnswer, setGradedAnswer] = useState<GradedAnswer | null>(null);
+  const [answeredCards, setAnsweredCards] = useState<AnsweredCard[]>([]);
+  const [showKnownLanguage, setShowKnownLanguage] = useState(false);
+  const [scheduler, setScheduler] = useState<Scheduler>(getScheduler('sm2'));
+  const [sessionId, setSessionId] = useState('');
+  const [startedAt, setStartedAt] = useState('');
+  const [completedAt, setCompletedAt] = useState<string | undefined>(undefined);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState<number | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  // Initialize the session from location state
+  useEffect(() => {
+    const { cards: sessionCards, showKnownLanguage: initialShowKnown, sessionId: initialSessionId, timeLimitMinutes: initialTimeLimit } =
+      (location.state as LocationState) ?? { cards: [], showKnownLanguage: false };
+
+    if (!sessionCards?.length) {
+      setError('No cards available. Please go back and try different filters.');
+      return;
+    }
+
+    setCards([...sessionCards].sort(() => Math.random() - 0.5));
+    setShowKnownLanguage(initialShowKnown);
+    setSessionId(initialSessionId ?? generateId());
+    setStartedAt(new Date().toISOString());
+    setTimeLimitMinutes(initialTimeLimit);
+    setCompletedAt(undefined);
+    setCurrentIndex(0);
+    setAnsweredCards([]);
+    setGradedAnswer(null);
+    setAnswer('');
+    setError(null);
+  }, [location.state]);
+
+  // Load the scheduling algorithm selected in the settings
+  useEffect(() => {
+    const loadScheduler = async () => {
+      try {
+        const settings = await getOrCreateSettings();
+        setScheduler(getScheduler(settings.schedulerAlgorithm));
+      } catch (err) {
+        console.error('Error loading settings:', err);
+      }
+    };
+
+    loadScheduler();
+  }, []);
+
+  const currentCard = cards[currentIndex];
+  const { remainingMs, isTimeUp } = useSessionTimeLimit(startedAt, timeLimitMinutes, Boolean(completedAt));
+
+  // Measure the response time from the moment the prompt is shown
+  useEffect(() => {
+    if (currentCard) {
+      shownAtRef.current = Date.now();
+      inputRef.current?.focus();
+    }
+  }, [currentCard]);
+
+  const handleBackClick = useCallback(() => {
+    navigate('/');
+  }, [navigate]);
+
+  const handleCheck = useCallback(async () => {
+    if (!currentCard || gradedAnswer || !answer.trim()) return;
+
+    const expected = showKnownLanguage ? currentCard.learning : currentCard.known;
+    const graded = gradeAnswer(answer, expected);
+    const outcome: ReviewOutcome = graded.isCorrect ? 'correct' : 'wrong';
+    setGradedAnswer(graded);
+
+    try {
+      // Same update path as a swipe in the learning session
+      const { card: reviewedCard, record } = await reviewCard(currentCard, outcome, scheduler, {
+        sessionId,
+        direction: getStudyDirection(showKnownLanguage),
+        responseTimeMs: Date.now() - shownAtRef.current
+      });
+      await recordReviewStudy(record);
+      setAnsweredCards(prev => [...prev, { ...reviewedCard, outcome }]);
+    } catch (err) {
+      console.error('Error updating card:', err);
+      setAnsweredCards(prev => [...prev, { ...currentCard, outcome }]);
+    }
+  }, [currentCard, gradedAnswer, answer, showKnownLanguage, scheduler, sessionId]);
+
+  const handleNext = useCallback(() => {
+    setGradedAnswer(null);
+    setAnswer('');
+    // A time-boxed session ends with the card answered when the time ran out
+    if (isTimeUp) {
+      setCompletedAt(new Date().toISOString());
+      setCurrentIndex(cards.length);
+      return;
+    }
+    if (currentIndex + 1 >= cards.length) {
+      setCompletedAt(new Date().toISOString());
+    }
+    setCurrentIndex(prev => prev + 1);
+  }, [currentIndex, cards.length, isTimeUp]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (gradedAnswer) {
+      handleNext();
+    } else {
+      handleCheck();
+    }
+  };
+
+  // Start a follow-up session with some of the cards of this one
+  const handleRetry = useCallback((retryCards: IFlashCard[]) => {
+    navigate('/typed-session', {
+      state: {
+        cards: retryCards,
+        showKnownLanguage,
+        sessionId: generateId()
+      },
+      replace: true
+    });
+  }, [navigate, showKnownLanguage]);
+
+  if (error) {
+    return (
+      <Box sx={{
+        height: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        p: 2
+      }}>
+        <Typography color="error">{error}</Typography>
+      </Box>
+    );
+  }
+
+  const promptWord = currentCard && (showKnownLanguage ? currentCard.known : currentCard.learning);
+  const promptContext = currentCard && (showKnownLanguage ? currentCard.contextKnown?.[0] : currentCard.contextLearning?.[0]);
+
+  return (
+    <Box sx={{
+      height: '100vh',
+      display: 'flex',
+      flexDirection: 'column',
+      bgcolor: 'background.default'
+    }}>
+      {/* Header */}
+      <Box sx={{
+        p: 2,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+      }}>
+        <IconButton onClick={handleBackClick} color="primary">
+          <ArrowBack />
+        </IconButton>
+        {currentCard && (
+          <Typography variant="h6">
+            {cards.length - currentIndex} / {cards.length}
+          </Typography>
+        )}
+        {remainingMs !== null && currentCard ? (
+          <SessionTimer remainingMs={remainingMs} />
+        ) : (
+          <Box sx={{ width: 40 }} />
+        )}
+      </Box>
+
+      {!currentCard ? (
+        cards.length > 0 && (
+          <SessionSummary
+            answeredCards={answeredCards}
+            startedAt={startedAt}
+            completedAt={completedAt}
+            onRetry={handleRetry}
+            onBack={handleBackClick}
+          />
+        )
+      ) : (
+        <Box
+          component="form"
+          onSubmit={handleSubmit}
+          sx={{
+            flexGrow: 1,
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            p: 2,
+            gap: 3
+          }}
+        >
+          <Paper
+            elevation={8}
+            sx={{
+              width: '100%',
+              maxWidth: 400,
+              minHeight: 200,
+              borderRadius: 4,
+              p: 3,
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              backgroundColor: showKnownLanguage ? colorScheme.knownWordBackground : colorScheme.learningWordBackground
+            }}
+          >
+            <Typography
+              variant="h4"
+              component="h2"
+              align="center"
+              sx={{
+                color: showKnownLanguage ? colorScheme.knownWord : colorScheme.learningWord,
+                wordBreak: 'break-word'
+              }}
+            >
+              {promptWord}
+            </Typography>
+            {promptContext && (
+              <Typography
+                variant="body1"
+                align="center"
+                sx={{ mt: 2, fontStyle: 'italic', color: 'text.secondary' }}
+              >
+                {promptContext}
+              </Typography>
+            )}
+          </Paper>
+
+          <TextField
+            inputRef={inputRef}
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder="Type the translation"
+            fullWidth
+            autoComplete="off"
+            autoCapitalize="off"
+            spellCheck={false}
+            disabled={Boolean(gradedAnswer)}
+            sx={{ maxWidth: 400 }}
+          />
+
+          {gradedAnswer && <AnswerFeedback gradedAnswer={gradedAnswer} />}
+
+          <Button
+            type="submit"
+            variant="contained"
+            size="large"
+            disabled={!gradedAnswer && !answer.trim()}
+            sx={{ px: 4, borderRadius: 2 }}
+          >
+            {gradedAnswer ? 'Next' : 'Check'}
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
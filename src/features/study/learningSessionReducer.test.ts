@@ -0,0 +1,150 @@
+import { IFlashCard, getNewCardDefaults } from '../../services/cardService';
+import { ReviewOutcome } from '../../services/schedulerService';
+import {
+  LearningSessionState,
+  RelearningOptions,
+  initialLearningSessionState,
+  learningSessionReducer,
+  toPersistedSession
+} from './learningSessionReducer';
+
+const RELEARNING: RelearningOptions = { relearnWrongCards: true, relearningDelay: 2, relearnRevisitCards: true };
+
+const card = (id: string): IFlashCard => ({
+  id,
+  known: id,
+  learning: id,
+  knownLanguage: 'Français',
+  learningLanguage: 'Anglais',
+  ...getNewCardDefaults(),
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+});
+
+// Session with the cards in a known order, the first ones on the stack
+const startSession = (ids: string[], relearning: RelearningOptions = RELEARNING, stackDepth = 2): LearningSessionState =>
+  learningSessionReducer(initialLearningSessionState, {
+    type: 'RESTORE_SESSION',
+    session: {
+      sessionId: 'session',
+      queueCardIds: ids,
+      stackCardIds: ids.slice(0, stackDepth).reverse(),
+      discardedCards: [],
+      nextCardIndex: stackDepth,
+      showKnownLanguage: false,
+      startedAt: '2024-01-01T09:00:00.000Z',
+      updatedAt: '2024-01-01T09:00:00.000Z'
+    },
+    cards: ids.map(card),
+    relearning,
+    stackDepth
+  });
+
+const topCard = (state: LearningSessionState) => state.cards[state.cards.length - 1];
+
+// Answers the top card the way a swipe does
+const answer = (state: LearningSessionState, outcome: ReviewOutcome): LearningSessionState => {
+  const answered = learningSessionReducer(state, { type: 'UPDATE_CARD', payload: { ...topCard(state), outcome } });
+  return learningSessionReducer(answered, { type: 'CARD_LEFT_SCREEN', cardId: topCard(state).id });
+};
+
+const undo = (state: LearningSessionState) =>
+  learningSessionReducer(state, { type: 'UNDO', card: state.discardedCards[state.discardedCards.length - 1] });
+
+const redo = (state: LearningSessionState) =>
+  learningSessionReducer(state, { type: 'REDO', card: state.redoCards[state.redoCards.length - 1] });
+
+const ids = (cards: IFlashCard[]) => cards.map(c => c.id);
+
+beforeAll(() => {
+  jest.spyOn(console, 'debug').mockImplementation(() => {});
+});
+
+describe('learningSessionReducer relearning', () => {
+  it('shows a card answered wrong again after the relearning delay', () => {
+    let state = startSession(['a', 'b', 'c', 'd', 'e']);
+    const shown: string[] = [];
+    const outcomes: ReviewOutcome[] = ['wrong', 'correct', 'correct', 'correct', 'correct', 'correct'];
+    outcomes.forEach(outcome => {
+      shown.push(`${topCard(state).id}${topCard(state).attempt ?? 0}`);
+      state = answer(state, outcome);
+    });
+
+    expect(shown).toEqual(['a0', 'b0', 'c0', 'a1', 'd0', 'e0']);
+    expect(state.completedAt).toBeDefined();
+  });
+
+  it('puts the cards to revisit at the end of the session', () => {
+    const state = answer(startSession(['a', 'b', 'c']), 'revisit');
+    expect(ids(state.initialCards)).toEqual(['a', 'b', 'c', 'a']);
+    expect(state.initialCards[3].attempt).toBe(1);
+  });
+
+  it('leaves the cards out when relearning is turned off', () => {
+    const relearning = { ...RELEARNING, relearnWrongCards: false, relearnRevisitCards: false };
+    expect(ids(answer(startSession(['a', 'b', 'c'], relearning), 'wrong').initialCards)).toEqual(['a', 'b', 'c']);
+    expect(ids(answer(startSession(['a', 'b', 'c'], relearning), 'revisit').initialCards)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('learningSessionReducer undo and redo', () => {
+  it('puts the last answered card back on top and takes back its relearning copy', () => {
+    const started = startSession(['a', 'b', 'c', 'd', 'e']);
+    const undone = undo(answer(started, 'wrong'));
+
+    expect(topCard(undone)).toMatchObject({ id: 'a', outcome: undefined, isRestoring: true });
+    expect(ids(undone.cards)).toEqual(ids(started.cards));
+    expect(ids(undone.initialCards)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(undone.nextCardIndex).toBe(started.nextCardIndex);
+    expect(ids(undone.redoCards)).toEqual(['a']);
+  });
+
+  it('ignores an undo with nothing left to undo', () => {
+    const undone = undo(answer(startSession(['a', 'b', 'c']), 'correct'));
+    expect(undo(undone)).toBe(undone);
+  });
+
+  it('redoes the undone answer, relearning copy included', () => {
+    const answered = answer(startSession(['a', 'b', 'c', 'd', 'e']), 'wrong');
+    const redone = redo(undo(answered));
+
+    expect(ids(redone.cards)).toEqual(ids(answered.cards));
+    expect(ids(redone.initialCards)).toEqual(ids(answered.initialCards));
+    expect(redone.redoCards).toEqual([]);
+  });
+
+  it('forgets the undone answers once another card is answered', () => {
+    const undone = undo(answer(startSession(['a', 'b', 'c']), 'correct'));
+    expect(answer(undone, 'correct').redoCards).toEqual([]);
+  });
+
+  it('brings back the stack left when the time ended the session', () => {
+    const started = startSession(['a', 'b', 'c']);
+    const ended = answer(learningSessionReducer(started, { type: 'TIME_UP' }), 'correct');
+    expect(ended.cards).toEqual([]);
+    expect(ended.completedAt).toBeDefined();
+
+    const undone = undo(ended);
+    expect(ids(undone.cards)).toEqual(['b', 'a']);
+    expect(undone.nextCardIndex).toBe(2);
+    expect(undone.completedAt).toBeUndefined();
+  });
+});
+
+describe('toPersistedSession', () => {
+  it('saves a session that is restored as it was', () => {
+    const answered = answer(startSession(['a', 'b', 'c', 'd']), 'wrong');
+    const restored = learningSessionReducer(initialLearningSessionState, {
+      type: 'RESTORE_SESSION',
+      session: toPersistedSession(answered, false, 'flip'),
+      cards: ['a', 'b', 'c', 'd'].map(card),
+      relearning: RELEARNING,
+      stackDepth: 2
+    });
+
+    expect(ids(restored.cards)).toEqual(ids(answered.cards));
+    expect(restored.initialCards.map(c => c.attempt ?? 0)).toEqual(answered.initialCards.map(c => c.attempt ?? 0));
+    expect(restored.discardedCards).toMatchObject([{ id: 'a', outcome: 'wrong', requeuedAt: 3 }]);
+    expect(restored.nextCardIndex).toBe(answered.nextCardIndex);
+  });
+});
@@ -0,0 +1,372 @@
+import { IFlashCard, ReviewRecord, SwipeDirection } from '../../services/cardService';
+import { ReviewOutcome, ReviewGrade } from '../../services/schedulerService';
+import { Settings } from '../../services/settingsService';
+import { CardAction, PersistedSession, StudyMode } from '../../services/sessionService';
+
+// State of a learning session: a stack of cards fed from a queue.
+// Shared by the study modes answering the cards one by one (swipes, audio review).
+
+export interface CardWithFlipState extends IFlashCard {
+  isFlipped: boolean;
+  isRestoring?: boolean;
+  swipeDirection?: SwipeDirection;  // Store the direction the card was swiped
+  outcome?: ReviewOutcome;  // The answer given to the card
+  grade?: ReviewGrade;      // How well the answer was known
+  action?: CardAction;      // Set when the card was skipped, suspended or buried instead of answered
+  review?: ReviewRecord;  // Changes written by the answer, to undo and redo it
+  requeuedAt?: number;    // Position in the queue where the card was put back for relearning
+  attempt?: number;       // Number of times the card was already shown in the session
+}
+
+// How cards answered wrong or marked for revision come back during the session
+export type RelearningOptions = Pick<Settings, 'relearnWrongCards' | 'relearningDelay' | 'relearnRevisitCards'>;
+
+// Types for the learning session state and actions
+export interface LearningSessionState {
+  cards: CardWithFlipState[];
+  initialCards: CardWithFlipState[];
+  nextCardIndex: number;
+  discardedCards: CardWithFlipState[];
+  redoCards: CardWithFlipState[];  // Undone cards, most recently undone last
+  relearning: RelearningOptions;
+  stackDepth: number;              // Number of cards on the stack while the queue lasts
+  sessionId: string;
+  startedAt: string;
+  completedAt?: string;
+  timeLimitMinutes?: number;       // Duration of a time-boxed session
+  isTimeUp: boolean;               // Whether the time ran out, the session then ends with the next answer
+  cardsLeftAtTimeUp?: CardWithFlipState[];  // Stack left when the session ended with the time, put back by an undo
+  loading: boolean;
+  error: string | null;
+}
+
+export type LearningSessionAction =
+  | { type: 'INITIALIZE_CARDS'; payload: IFlashCard[]; sessionId: string; startedAt: string; relearning: RelearningOptions; stackDepth: number; timeLimitMinutes?: number }
+  | { type: 'RESTORE_SESSION'; session: PersistedSession; cards: IFlashCard[]; relearning: RelearningOptions; stackDepth: number }
+  | { type: 'CARD_LEFT_SCREEN'; cardId: string }
+  | { type: 'FLIP_CARD'; cardId: string }
+  | { type: 'REVIEW_SAVED'; cardId: string; card: IFlashCard; review: ReviewRecord }
+  | { type: 'UNDO'; card: IFlashCard }
+  | { type: 'REDO'; card: IFlashCard }
+  | { type: 'TIME_UP' }
+  | { type: 'SET_ERROR'; error: string }
+  | { type: 'SET_LOADING'; loading: boolean }
+  | { type: 'UPDATE_CARD'; payload: CardWithFlipState };
+
+// Moves a card from the stack to the discarded cards, and brings the next card of the queue in
+const discardCard = (state: LearningSessionState, discardedCard: CardWithFlipState): LearningSessionState => {
+  const remainingCards = state.cards.filter(card => card.id !== discardedCard.id);
+  const newDiscardedCards = [...state.discardedCards, discardedCard];
+
+  // Once the time is up, the card answered is the last of the session: the queue stays where it was
+  if (state.isTimeUp) {
+    return {
+      ...state,
+      cards: [],
+      cardsLeftAtTimeUp: remainingCards,
+      discardedCards: newDiscardedCards,
+      completedAt: new Date().toISOString()
+    };
+  }
+
+  if (state.nextCardIndex < state.initialCards.length) {
+    const nextCard = state.initialCards[state.nextCardIndex];
+    return {
+      ...state,
+      cards: [{ ...nextCard, isFlipped: false }, ...remainingCards],
+      discardedCards: newDiscardedCards,
+      nextCardIndex: state.nextCardIndex + 1
+    };
+  }
+
+  return {
+    ...state,
+    cards: remainingCards,
+    discardedCards: newDiscardedCards,
+    nextCardIndex: state.nextCardIndex + 1,
+    completedAt: remainingCards.length === 0 ? new Date().toISOString() : state.completedAt
+  };
+};
+
+// Puts a card answered wrong or marked for revision back in the queue, until it is answered correctly
+const requeueCard = (state: LearningSessionState, card: CardWithFlipState): LearningSessionState & { requeuedAt?: number } => {
+  const { relearning } = state;
+  let requeuedAt: number | undefined;
+
+  if (card.outcome === 'wrong' && relearning.relearnWrongCards) {
+    // Cards still on the stack are shown before the queue
+    const remainingOnStack = state.cards.filter(stackCard => stackCard.id !== card.id).length;
+    requeuedAt = Math.min(
+      state.nextCardIndex + Math.max(0, Math.max(1, relearning.relearningDelay) - remainingOnStack),
+      state.initialCards.length
+    );
+  } else if (card.outcome === 'revisit' && relearning.relearnRevisitCards) {
+    requeuedAt = state.initialCards.length;
+  }
+
+  if (requeuedAt === undefined) return state;
+
+  const requeuedCard: CardWithFlipState = {
+    ...card,
+    attempt: (card.attempt ?? 0) + 1,
+    isFlipped: false,
+    isRestoring: false,
+    swipeDirection: undefined,
+    outcome: undefined,
+    review: undefined,
+    requeuedAt: undefined
+  };
+  return {
+    ...state,
+    initialCards: [
+      ...state.initialCards.slice(0, requeuedAt),
+      requeuedCard,
+      ...state.initialCards.slice(requeuedAt)
+    ],
+    requeuedAt
+  };
+};
+
+// Answers a card: puts it back in the queue if needed and takes it off the stack
+const answerCard = (state: LearningSessionState, card: CardWithFlipState): LearningSessionState => {
+  const { requeuedAt, ...requeuedState } = requeueCard(state, card);
+  return discardCard(requeuedState, { ...card, requeuedAt });
+};
+
+// Reducer function for handling all learning session state changes
+export const learningSessionReducer = (state: LearningSessionState, action: LearningSessionAction): LearningSessionState => {
+  console.debug('Reducer action:', action);
+  switch (action.type) {
+    case 'INITIALIZE_CARDS': {
+      const shuffledCards = [...action.payload].sort(() => Math.random() - 0.5)
+        .map(card => ({ ...card, isFlipped: false, isRestoring: false, swipeDirection: undefined, outcome: undefined }));
+      const initialCount = Math.min(action.stackDepth, shuffledCards.length);
+
+      return {
+        ...state,
+        initialCards: shuffledCards,
+        cards: shuffledCards.slice(0, initialCount).reverse(),
+        nextCardIndex: initialCount,
+        sessionId: action.sessionId,
+        startedAt: action.startedAt,
+        completedAt: undefined,
+        timeLimitMinutes: action.timeLimitMinutes,
+        isTimeUp: false,
+        cardsLeftAtTimeUp: undefined,
+        loading: false,
+        discardedCards: [],
+        redoCards: [],
+        relearning: action.relearning,
+        stackDepth: action.stackDepth
+      };
+    }
+
+    case 'RESTORE_SESSION': {
+      const { session } = action;
+      // Cards deleted since the session was saved are skipped
+      const cardsById = new Map(action.cards.map(card => [card.id, card]));
+      const toCardState = (id: string, attempt?: number): CardWithFlipState[] => {
+        const card = cardsById.get(id);
+        return card ? [{ ...card, isFlipped: false, attempt }] : [];
+      };
+
+      return {
+        ...state,
+        initialCards: session.queueCardIds.flatMap((id, index) => toCardState(id, session.queueAttempts?.[index])),
+        cards: session.stackCardIds.flatMap((id, index) => toCardState(id, session.stackAttempts?.[index])),
+        discardedCards: session.discardedCards.flatMap(({ id, swipeDirection, outcome, action: cardAction, review, requeuedAt, attempt }) =>
+          toCardState(id, attempt).map(card => ({ ...card, swipeDirection, outcome, action: cardAction, review, requeuedAt }))
+        ),
+        redoCards: [],
+        relearning: action.relearning,
+        stackDepth: action.stackDepth,
+        nextCardIndex: session.queueCardIds.slice(0, session.nextCardIndex).filter(id => cardsById.has(id)).length,
+        sessionId: session.sessionId,
+        startedAt: session.startedAt,
+        completedAt: session.completedAt,
+        timeLimitMinutes: session.timeLimitMinutes,
+        isTimeUp: false,
+        cardsLeftAtTimeUp: undefined,
+        loading: false,
+        error: null
+      };
+    }
+
+    case 'CARD_LEFT_SCREEN': {
+      const discardedCard = state.cards.find(card => card.id === action.cardId);
+      if (!discardedCard) return state;
+
+      // A new answer makes the undone cards impossible to redo
+      return answerCard({ ...state, redoCards: [] }, discardedCard);
+    }
+
+    case 'FLIP_CARD': {
+      return {
+        ...state,
+        cards: state.cards.map(card =>
+          card.id === action.cardId
+            ? { ...card, isFlipped: !card.isFlipped }
+            : card
+        )
+      };
+    }
+
+    case 'REVIEW_SAVED': {
+      // The card may already have left the screen when its review is saved,
+      // in which case a copy put back for relearning may be on the stack
+      const saved = { ...action.card, review: action.review };
+      const isAnsweredCard = (card: CardWithFlipState) => card.id === action.cardId && card.outcome !== undefined;
+      if (state.cards.some(isAnsweredCard)) {
+        return {
+          ...state,
+          cards: state.cards.map(card => isAnsweredCard(card) ? { ...card, ...saved } : card)
+        };
+      }
+
+      const discardedIndex = state.discardedCards.map(card => card.id).lastIndexOf(action.cardId);
+      if (discardedIndex === -1) return state;
+
+      return {
+        ...state,
+        discardedCards: state.discardedCards.map((card, index) =>
+          index === discardedIndex ? { ...card, ...saved } : card
+        )
+      };
+    }
+
+    case 'UNDO': {
+      console.debug('Undo action triggered');
+      if (state.discardedCards.length === 0) return state;
+
+      const lastDiscardedCard = state.discardedCards[state.discardedCards.length - 1];
+      // The last answer of a session ended by the time took no card from the queue
+      const isEndedByTime = state.cardsLeftAtTimeUp !== undefined;
+      const updatedCards = [...(state.cardsLeftAtTimeUp ?? state.cards)];
+
+      const initialCount = Math.min(state.stackDepth, state.initialCards.length);
+      if (!isEndedByTime && updatedCards.length >= initialCount) {
+        updatedCards.shift();
+      }
+
+      // Show the card with the statistics restored in the database
+      const restoredCard: CardWithFlipState = {
+        ...lastDiscardedCard,
+        ...action.card,
+        isFlipped: false,
+        isRestoring: true,
+        swipeDirection: undefined,
+        outcome: undefined,
+        action: undefined,
+        review: undefined
+      };
+
+      // Take back the copy put in the queue for relearning
+      const initialCards = lastDiscardedCard.requeuedAt === undefined
+        ? state.initialCards
+        : state.initialCards.filter((_, index) => index !== lastDiscardedCard.requeuedAt);
+
+      return {
+        ...state,
+        initialCards,
+        discardedCards: state.discardedCards.slice(0, -1),
+        redoCards: [...state.redoCards, lastDiscardedCard],
+        cards: [...updatedCards, restoredCard],
+        cardsLeftAtTimeUp: undefined,
+        nextCardIndex: isEndedByTime ? state.nextCardIndex : Math.max(0, state.nextCardIndex - 1),
+        completedAt: undefined
+      };
+    }
+
+    case 'REDO': {
+      if (state.redoCards.length === 0) return state;
+
+      const redoneCard = state.redoCards[state.redoCards.length - 1];
+      return answerCard(
+        { ...state, redoCards: state.redoCards.slice(0, -1) },
+        { ...redoneCard, ...action.card, isFlipped: false, isRestoring: false }
+      );
+    }
+
+    case 'TIME_UP': {
+      return {
+        ...state,
+        isTimeUp: true
+      };
+    }
+
+    case 'SET_ERROR': {
+      return {
+        ...state,
+        error: action.error,
+        loading: false
+      };
+    }
+
+    case 'SET_LOADING': {
+      return {
+        ...state,
+        loading: action.loading
+      };
+    }
+
+    case 'UPDATE_CARD': {
+      return {
+        ...state,
+        cards: state.cards.map(card =>
+          card.id === action.payload.id ? action.payload : card
+        )
+      };
+    }
+
+    default:
+      return state;
+  }
+};
+
+// Snapshot of the session saved to resume it after a reload
+export const toPersistedSession = (
+  state: LearningSessionState,
+  showKnownLanguage: boolean,
+  mode: StudyMode
+): PersistedSession => ({
+  sessionId: state.sessionId,
+  queueCardIds: state.initialCards.map(card => card.id),
+  stackCardIds: state.cards.map(card => card.id),
+  queueAttempts: state.initialCards.map(card => card.attempt ?? 0),
+  stackAttempts: state.cards.map(card => card.attempt ?? 0),
+  discardedCards: state.discardedCards.map(({ id, swipeDirection, outcome, action, review, requeuedAt, attempt }) => ({
+    id,
+    swipeDirection,
+    outcome,
+    action,
+    review,
+    requeuedAt,
+    attempt
+  })),
+  nextCardIndex: state.nextCardIndex,
+  showKnownLanguage,
+  startedAt: state.startedAt,
+  completedAt: state.completedAt,
+  timeLimitMinutes: state.timeLimitMinutes,
+  mode,
+  updatedAt: new Date().toISOString()
+});
+
+export const initialLearningSessionState: LearningSessionState = {
+  cards: [],
+  initialCards: [],
+  nextCardIndex: 0,
+  discardedCards: [],
+  redoCards: [],
+  relearning: {
+    relearnWrongCards: false,
+    relearningDelay: 0,
+    relearnRevisitCards: false
+  },
+  stackDepth: 4,
+  sessionId: '',
+  startedAt: '',
+  isTimeUp: false,
+  loading: true,
+  error: null
+};
@@ -0,0 +1,53 @@
+import { renderHook } from '@testing-library/react';
+import { useExclusiveTask } from './useExclusiveTask';
+
+// Task staying in progress until resolved
+const pendingTask = () => {
+  let resolveTask = () => {};
+  const task = jest.fn(() => new Promise<void>(resolve => {
+    resolveTask = resolve;
+  }));
+  return { task, resolve: () => resolveTask() };
+};
+
+describe('useExclusiveTask', () => {
+  it('ignores a repeated undo while the first one is still writing', async () => {
+    const { result } = renderHook(() => useExclusiveTask());
+    const undo = pendingTask();
+
+    const firstUndo = result.current(undo.task);
+    await result.current(undo.task);
+    expect(undo.task).toHaveBeenCalledTimes(1);
+
+    undo.resolve();
+    await firstUndo;
+    const secondUndo = result.current(undo.task);
+    expect(undo.task).toHaveBeenCalledTimes(2);
+    undo.resolve();
+    await secondUndo;
+  });
+
+  it('does not redo while an undo is in progress', async () => {
+    const { result } = renderHook(() => useExclusiveTask());
+    const undo = pendingTask();
+    const redo = jest.fn(() => Promise.resolve());
+
+    const pendingUndo = result.current(undo.task);
+    await result.current(redo);
+    expect(redo).not.toHaveBeenCalled();
+
+    undo.resolve();
+    await pendingUndo;
+    await result.current(redo);
+    expect(redo).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs again after a failed task', async () => {
+    const { result } = renderHook(() => useExclusiveTask());
+    const task = jest.fn().mockRejectedValueOnce(new Error('write failed')).mockResolvedValue(undefined);
+
+    await expect(result.current(task)).rejects.toThrow('write failed');
+    await result.current(task);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
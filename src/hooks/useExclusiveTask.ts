@@ -0,0 +1,23 @@
+import { useCallback, useRef } from 'react';
+
+/**
+ * Custom hook that runs async tasks one at a time, ignoring the ones started while another is in progress,
+ * e.g. an undo pressed again before the first one is written
+ * @returns A stable function running a task unless another one is in progress
+ */
+export const useExclusiveTask = () => {
+  const busyRef = useRef(false);
+
+  return useCallback(async (task: () => Promise<void>) => {
+    if (busyRef.current) return;
+
+    busyRef.current = true;
+    try {
+      await task();
+    } finally {
+      busyRef.current = false;
+    }
+  }, []);
+};
+
+export default useExclusiveTask;
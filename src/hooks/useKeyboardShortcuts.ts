@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+
+export interface KeyboardShortcut {
+  keys: string[];         // KeyboardEvent.key values triggering the shortcut, letters in lower case
+  label: string;          // Keys as shown in the help (e.g., "Z / Ctrl+Z")
+  description: string;    // What the shortcut does
+  withCtrl?: boolean;     // Also triggered with Ctrl/Cmd held, e.g. Ctrl+Z for undo
+  handler: () => void;
+}
+
+// Keys typed in a text field are not shortcuts
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Custom hook that calls the handler of a shortcut when one of its keys is pressed anywhere on the page.
+ * Keys pressed with Ctrl/Cmd only trigger the shortcuts allowing it, so browser shortcuts such as Ctrl+S keep working.
+ * @param shortcuts The shortcuts, the latest handlers are always called
+ * @param enabled Whether the shortcuts are listened to, e.g. false while a dialog is open
+ */
+export const useKeyboardShortcuts = (shortcuts: KeyboardShortcut[], enabled = true) => {
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || event.altKey || isEditableTarget(event.target)) return;
+
+      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+      const shortcut = shortcutsRef.current.find(({ keys }) => keys.includes(key));
+      if (!shortcut || ((event.ctrlKey || event.metaKey) && !shortcut.withCtrl)) return;
+
+      // Keep space from scrolling or pressing the focused button
+      event.preventDefault();
+      shortcut.handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
+
+export default useKeyboardShortcuts;
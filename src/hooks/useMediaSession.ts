@@ -0,0 +1,80 @@
+import { useEffect, useRef } from 'react';
+
+export type MediaSessionHandlers = Partial<Record<'play' | 'pause' | 'nexttrack' | 'previoustrack', () => void>>;
+
+const ACTIONS: (keyof MediaSessionHandlers)[] = ['play', 'pause', 'nexttrack', 'previoustrack'];
+
+/**
+ * Custom hook that routes the media keys of headsets and lock screens to the given handlers,
+ * through the Media Session API. Does nothing in browsers without it.
+ * The browser only sends the keys to a page playing media, see createSilentAudioUrl.
+ * @param title Title shown on the lock screen
+ * @param handlers Handlers of the media actions, the latest ones are always called
+ */
+export const useMediaSession = (title: string, handlers: MediaSessionHandlers) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+
+    ACTIONS.forEach(action => {
+      try {
+        navigator.mediaSession.setActionHandler(action, () => handlersRef.current[action]?.());
+      } catch (error) {
+        console.warn(`Media session action ${action} is not supported`, error);
+      }
+    });
+
+    return () => {
+      ACTIONS.forEach(action => {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {
+          // Already reported when the handler was set
+        }
+      });
+      navigator.mediaSession.metadata = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator) || typeof MediaMetadata === 'undefined') return;
+    navigator.mediaSession.metadata = new MediaMetadata({ title, artist: 'LangDeck' });
+  }, [title]);
+};
+
+/**
+ * Creates a second of silence as a WAV file, looped while a hands-free session runs
+ * so the page counts as playing media and receives the media keys
+ * @returns An object URL of the audio file, to revoke when done
+ */
+export const createSilentAudioUrl = (): string => {
+  const sampleRate = 8000;
+  const buffer = new ArrayBuffer(44 + sampleRate);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    Array.from(text).forEach((char, index) => view.setUint8(offset + index, char.charCodeAt(0)));
+  };
+
+  // RIFF header of an 8-bit mono PCM file
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + sampleRate, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate, true);
+  view.setUint16(32, 1, true);
+  view.setUint16(34, 8, true);
+  writeString(36, 'data');
+  view.setUint32(40, sampleRate, true);
+  // Unsigned 8-bit silence
+  new Uint8Array(buffer, 44).fill(128);
+
+  return URL.createObjectURL(new Blob([buffer], { type: 'audio/wav' }));
+};
+
+export default useMediaSession;
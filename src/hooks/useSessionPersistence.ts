@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react';
+import { PersistedSession, StudyMode, saveSession } from '../services/sessionService';
+import { LearningSessionState, toPersistedSession } from '../features/study/learningSessionReducer';
+
+/**
+ * Custom hook that saves a learning session as it changes, so it can be resumed after a reload
+ * @param state The state of the session
+ * @param showKnownLanguage Whether the known language is shown first
+ * @param mode The study mode, to resume the session on the same page
+ */
+export const useSessionPersistence = (state: LearningSessionState, showKnownLanguage: boolean, mode: StudyMode) => {
+  // Session snapshot waiting to be saved, and the chain of saves so an older snapshot never lands last
+  const pendingSessionRef = useRef<PersistedSession | null>(null);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    if (state.loading || !state.sessionId || state.initialCards.length === 0) return;
+
+    pendingSessionRef.current = toPersistedSession(state, showKnownLanguage, mode);
+
+    // Only the latest snapshot is written once the previous save is done
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      const session = pendingSessionRef.current;
+      if (!session) return;
+      pendingSessionRef.current = null;
+      try {
+        await saveSession(session);
+      } catch (err) {
+        console.error('Error persisting session:', err);
+      }
+    });
+  }, [state, showKnownLanguage, mode]);
+};
+
+export default useSessionPersistence;
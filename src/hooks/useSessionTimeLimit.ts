@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Custom hook that counts down the time left in a time-boxed session
+ * @param startedAt ISO timestamp of the start of the session
+ * @param timeLimitMinutes Duration of the session, unlimited when missing
+ * @param isComplete Whether the session is over, which stops the countdown
+ * @returns The milliseconds left, null without a limit, and whether the time is up
+ */
+export const useSessionTimeLimit = (startedAt: string, timeLimitMinutes: number | undefined, isComplete: boolean) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!timeLimitMinutes || isComplete) return;
+
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [timeLimitMinutes, isComplete]);
+
+  if (!timeLimitMinutes || !startedAt) {
+    return { remainingMs: null, isTimeUp: false };
+  }
+
+  const remainingMs = Math.max(0, new Date(startedAt).getTime() + timeLimitMinutes * 60000 - now);
+  return { remainingMs, isTimeUp: remainingMs === 0 };
+};
+
+export default useSessionTimeLimit;
@@ -1,7 +1,7 @@
 import React from 'react';
 import { useNavigate, useLocation, Outlet } from 'react-router';
 import { BottomNavigation, BottomNavigationAction, Paper } from '@mui/material';
-import { School, List, Settings } from '@mui/icons-material';
+import { School, List, BarChart, Settings } from '@mui/icons-material';
 
 export const TabsRouter: React.FC = () => {
   const navigate = useNavigate();
@@ -28,6 +28,11 @@ export const TabsRouter: React.FC = () => {
             value="/list"
             icon={<List />}
           />
+          <BottomNavigationAction
+            label="Stats"
+            value="/stats"
+            icon={<BarChart />}
+          />
           <BottomNavigationAction
             label="Settings"
             value="/settings"
@@ -0,0 +1,91 @@
+import {
+  diffAnswer,
+  getAcceptedAnswers,
+  getTypoTolerance,
+  gradeAnswer,
+  levenshteinDistance,
+  normalizeAnswer
+} from './answerGrading';
+
+describe('normalizeAnswer', () => {
+  it('removes case, diacritics, punctuation and extra spaces', () => {
+    expect(normalizeAnswer('  Éléphant,   ROSE! ')).toBe('elephant rose');
+  });
+
+  it('splits elisions on apostrophes', () => {
+    expect(normalizeAnswer("l'homme")).toBe('l homme');
+  });
+});
+
+describe('levenshteinDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(levenshteinDistance('', 'abc')).toBe(3);
+    expect(levenshteinDistance('same', 'same')).toBe(0);
+  });
+});
+
+describe('getTypoTolerance', () => {
+  it('tolerates more typos in longer answers', () => {
+    expect(getTypoTolerance(3)).toBe(0);
+    expect(getTypoTolerance(4)).toBe(1);
+    expect(getTypoTolerance(8)).toBe(1);
+    expect(getTypoTolerance(9)).toBe(2);
+  });
+});
+
+describe('getAcceptedAnswers', () => {
+  it('accepts each alternative', () => {
+    expect(getAcceptedAnswers('to lie / to lay; to rest')).toEqual(
+      expect.arrayContaining(['to lie', 'to lay', 'to rest'])
+    );
+  });
+
+  it('accepts answers with and without the optional parts', () => {
+    expect(getAcceptedAnswers('(se) promener')).toEqual(['(se) promener', 'promener']);
+  });
+});
+
+describe('diffAnswer', () => {
+  it('marks the missing characters', () => {
+    expect(diffAnswer('ct', 'cat')).toEqual([
+      { type: 'equal', text: 'c' },
+      { type: 'missing', text: 'a' },
+      { type: 'equal', text: 't' }
+    ]);
+  });
+
+  it('marks the characters typed in excess, keeping the case of the expected answer', () => {
+    expect(diffAnswer('caat', 'Cat')).toEqual([
+      { type: 'equal', text: 'Ca' },
+      { type: 'extra', text: 'a' },
+      { type: 'equal', text: 't' }
+    ]);
+  });
+});
+
+describe('gradeAnswer', () => {
+  it('accepts an answer without its diacritics as exact', () => {
+    expect(gradeAnswer('cafe', 'café')).toMatchObject({ verdict: 'exact', isCorrect: true, distance: 0 });
+  });
+
+  it('accepts a small typo as close', () => {
+    expect(gradeAnswer('elephnt', 'elephant')).toMatchObject({ verdict: 'close', isCorrect: true, distance: 1 });
+  });
+
+  it('rejects a typo in a short word', () => {
+    expect(gradeAnswer('car', 'cat')).toMatchObject({ verdict: 'wrong', isCorrect: false });
+  });
+
+  it('rejects too many typos', () => {
+    expect(gradeAnswer('elefant', 'elephant').verdict).toBe('wrong');
+  });
+
+  it('rejects an empty answer', () => {
+    expect(gradeAnswer('  ', 'cat').isCorrect).toBe(false);
+  });
+
+  it('compares with the closest alternative', () => {
+    expect(gradeAnswer('to lay', 'to lie / to lay')).toMatchObject({ verdict: 'exact', expected: 'to lay' });
+  });
+});
@@ -0,0 +1,168 @@
+// Grading of typed answers, tolerant to case, diacritics, punctuation and small typos
+
+export type AnswerVerdict = 'exact' | 'close' | 'wrong';
+
+// Part of a character-level diff between the given and the expected answer
+export interface DiffSegment {
+  type: 'equal' | 'missing' | 'extra'; // missing: expected but not typed, extra: typed but not expected
+  text: string;
+}
+
+export interface GradedAnswer {
+  verdict: AnswerVerdict;
+  isCorrect: boolean;     // Exact and close answers both count as correct
+  expected: string;       // The accepted answer closest to the given one
+  distance: number;       // Number of typos after normalization
+  diff: DiffSegment[];    // Character-level diff between the given answer and the expected one
+}
+
+/**
+ * Normalizes an answer for comparison: removes diacritics, case, punctuation and extra spaces
+ * @param answer The answer to normalize
+ * @returns The normalized answer
+ */
+export function normalizeAnswer(answer: string): string {
+  return answer
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Computes the Levenshtein distance between two strings
+ * @param a The first string
+ * @param b The second string
+ * @returns The minimum number of insertions, deletions and substitutions
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      currentRow[j] = Math.min(
+        previousRow[j] + 1,
+        currentRow[j - 1] + 1,
+        previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previousRow = currentRow;
+  }
+
+  return previousRow[b.length];
+}
+
+/**
+ * Returns the number of typos tolerated for an answer of the given length
+ * @param length The length of the normalized expected answer
+ * @returns The maximum accepted distance
+ */
+export function getTypoTolerance(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 8) return 1;
+  return 2;
+}
+
+/**
+ * Lists the accepted forms of an expected answer: alternatives separated by "/" or ";",
+ * with and without the optional parts in parentheses
+ * @param expected The expected answer as written on the card
+ * @returns The accepted answers
+ */
+export function getAcceptedAnswers(expected: string): string[] {
+  const alternatives = [expected, ...expected.split(/[/;]/)]
+    .map(alternative => alternative.trim())
+    .filter(Boolean);
+
+  const withoutOptionalParts = alternatives.map(alternative =>
+    alternative.replace(/\([^)]*\)/g, '').replace(/\s+/g, ' ').trim()
+  );
+
+  return Array.from(new Set([...alternatives, ...withoutOptionalParts])).filter(Boolean);
+}
+
+/**
+ * Computes a character-level diff between the given answer and the expected one, ignoring case
+ * @param given The answer typed by the user
+ * @param expected The expected answer
+ * @returns The diff segments, in the order of the expected answer
+ */
+export function diffAnswer(given: string, expected: string): DiffSegment[] {
+  const a = given.toLowerCase();
+  const b = expected.toLowerCase();
+
+  // Longest common subsequence table
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], char: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += char;
+    } else {
+      segments.push({ type, text: char });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push('equal', expected[j]);
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      push('missing', expected[j]);
+      j++;
+    } else {
+      push('extra', given[i]);
+      i++;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Grades a typed answer against the expected one
+ * @param given The answer typed by the user
+ * @param expected The expected answer as written on the card
+ * @returns The graded answer
+ */
+export function gradeAnswer(given: string, expected: string): GradedAnswer {
+  const normalizedGiven = normalizeAnswer(given);
+
+  // Compare with the closest accepted answer
+  const [best] = getAcceptedAnswers(expected)
+    .map(accepted => ({
+      accepted,
+      normalized: normalizeAnswer(accepted),
+      distance: levenshteinDistance(normalizedGiven, normalizeAnswer(accepted))
+    }))
+    .sort((a, b) => a.distance - b.distance);
+
+  const closest = best ?? { accepted: expected, normalized: normalizeAnswer(expected), distance: Infinity };
+
+  let verdict: AnswerVerdict = 'wrong';
+  if (normalizedGiven && closest.distance === 0) {
+    verdict = 'exact';
+  } else if (normalizedGiven && closest.distance <= getTypoTolerance(closest.normalized.length)) {
+    verdict = 'close';
+  }
+
+  return {
+    verdict,
+    isCorrect: verdict !== 'wrong',
+    expected: closest.accepted,
+    distance: closest.distance,
+    diff: diffAnswer(given.trim(), closest.accepted)
+  };
+}
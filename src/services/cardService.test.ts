@@ -0,0 +1,157 @@
+import 'fake-indexeddb/auto';
+import {
+  CardCounters,
+  IFlashCard,
+  IReview,
+  addCard,
+  getCardProgress,
+  getCardsByIds,
+  getNewCardDefaults,
+  getReviewsForCard,
+  getReviewsForDay,
+  getReviewsForSession,
+  getTrashedCards,
+  mergeCards,
+  rebuildCardCounters,
+  restoreCards,
+  redoReview,
+  reviewCard,
+  undoReview
+} from './cardService';
+import { ReviewOutcome, getInitialSchedulingState, sm2Scheduler } from './schedulerService';
+
+const card = (id: string, overrides: Partial<IFlashCard> = {}): IFlashCard => ({
+  id,
+  known: 'chat',
+  learning: 'cat',
+  knownLanguage: 'Français',
+  learningLanguage: 'Anglais',
+  ...getNewCardDefaults(),
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+// Writes a review at a given time, through the same path as a redone answer
+const logReview = (
+  cardId: string,
+  outcome: ReviewOutcome,
+  reviewedAt: Date,
+  context: Partial<IReview> = {}
+) => {
+  const delta: CardCounters = {
+    correctCount: outcome === 'correct' ? 1 : 0,
+    wrongCount: outcome === 'wrong' ? 1 : 0,
+    revisitCount: outcome === 'revisit' ? 1 : 0
+  };
+  const scheduling = getInitialSchedulingState(reviewedAt);
+  return redoReview({
+    review: { cardId, outcome, reviewedAt: reviewedAt.toISOString(), ...context },
+    delta,
+    schedulingBefore: scheduling,
+    schedulingAfter: scheduling
+  });
+};
+
+describe('getReviewsForDay', () => {
+  beforeAll(async () => {
+    await addCard(card('day-card'));
+    await logReview('day-card', 'correct', new Date(2024, 2, 10, 2));
+    await logReview('day-card', 'wrong', new Date(2024, 2, 10, 10));
+    await logReview('day-card', 'correct', new Date(2024, 2, 11, 3));
+    await logReview('day-card', 'revisit', new Date(2024, 2, 11, 5));
+  });
+
+  const reviewTimes = (reviews: IReview[]) => reviews.map(review => new Date(review.reviewedAt).getHours());
+
+  it('returns the reviews of the calendar day without a rollover hour', async () => {
+    expect(reviewTimes(await getReviewsForDay(new Date(2024, 2, 10, 12), 0))).toEqual([2, 10]);
+  });
+
+  it('counts the night before the rollover in the day before', async () => {
+    expect(reviewTimes(await getReviewsForDay(new Date(2024, 2, 10, 12), 4))).toEqual([10, 3]);
+    expect(reviewTimes(await getReviewsForDay(new Date(2024, 2, 11, 1), 4))).toEqual([10, 3]);
+  });
+});
+
+describe('getReviewsForSession', () => {
+  it('returns the reviews of the session, oldest first', async () => {
+    await addCard(card('session-card'));
+    await logReview('session-card', 'wrong', new Date(2024, 4, 1, 9, 5), { sessionId: 'session-a' });
+    await logReview('session-card', 'correct', new Date(2024, 4, 1, 9, 0), { sessionId: 'session-a' });
+    await logReview('session-card', 'correct', new Date(2024, 4, 1, 9, 3), { sessionId: 'session-b' });
+
+    const reviews = await getReviewsForSession('session-a');
+    expect(reviews.map(review => review.outcome)).toEqual(['correct', 'wrong']);
+    await expect(getReviewsForSession('missing')).resolves.toEqual([]);
+  });
+});
+
+describe('rebuildCardCounters', () => {
+  it('counts the answers of each direction from the review log', async () => {
+    await addCard(card('rebuilt-card', { correctCount: 7, wrongCount: 3 }));
+    const reviewedAt = new Date(2024, 5, 1, 9);
+    await logReview('rebuilt-card', 'correct', reviewedAt);
+    await logReview('rebuilt-card', 'wrong', reviewedAt);
+    await logReview('rebuilt-card', 'revisit', reviewedAt, { direction: 'knownToLearning' });
+    await logReview('rebuilt-card', 'correct', reviewedAt, { direction: 'knownToLearning', isRelearning: true });
+
+    await expect(rebuildCardCounters(['rebuilt-card'])).resolves.toBe(1);
+
+    const [rebuilt] = await getCardsByIds(['rebuilt-card']);
+    expect(getCardProgress(rebuilt, 'learningToKnown')).toMatchObject({ correctCount: 1, wrongCount: 1, revisitCount: 0 });
+    expect(getCardProgress(rebuilt, 'knownToLearning')).toMatchObject({ correctCount: 0, wrongCount: 0, revisitCount: 1 });
+    expect(rebuilt).toMatchObject({ correctCount: 1, wrongCount: 1, revisitCount: 1 });
+  });
+});
+
+describe('undoReview', () => {
+  it('takes a review back only once', async () => {
+    await addCard(card('undone-card'));
+    const { record } = await reviewCard(card('undone-card'), 'correct', sm2Scheduler);
+
+    const undone = await undoReview(record);
+    expect(undone).toMatchObject({ correctCount: 0, repetitions: 0 });
+    await expect(undoReview(record)).rejects.toThrow('Review already undone');
+
+    const [stored] = await getCardsByIds(['undone-card']);
+    expect(stored.correctCount).toBe(0);
+  });
+
+  it('redoes an undone review only once', async () => {
+    await addCard(card('redone-card'));
+    const { record } = await reviewCard(card('redone-card'), 'correct', sm2Scheduler);
+    await undoReview(record);
+
+    await expect(redoReview(record)).resolves.toMatchObject({ correctCount: 1 });
+    await expect(redoReview(record)).rejects.toThrow('Review already redone');
+  });
+});
+
+describe('mergeCards', () => {
+  it('trashes the merged cards and gives their history back on restore', async () => {
+    const reviewedAt = new Date(2024, 6, 1, 9);
+    await addCard(card('kept-card'));
+    await addCard(card('merged-card'));
+    await logReview('kept-card', 'correct', reviewedAt);
+    await logReview('merged-card', 'wrong', reviewedAt);
+    await logReview('merged-card', 'correct', reviewedAt);
+
+    await mergeCards(await getCardsByIds(['kept-card', 'merged-card']));
+
+    let [kept] = await getCardsByIds(['kept-card']);
+    expect(kept).toMatchObject({ correctCount: 2, wrongCount: 1 });
+    expect((await getTrashedCards()).map(trashed => trashed.id)).toContain('merged-card');
+    expect(await getReviewsForCard('kept-card')).toHaveLength(3);
+
+    const [restored] = await restoreCards(['merged-card']);
+    expect(restored.deletedAt).toBeUndefined();
+    expect(restored.mergedInto).toBeUndefined();
+    expect(restored).toMatchObject({ correctCount: 1, wrongCount: 1 });
+
+    [kept] = await getCardsByIds(['kept-card']);
+    expect(kept).toMatchObject({ correctCount: 1, wrongCount: 0 });
+    expect(await getReviewsForCard('kept-card')).toHaveLength(1);
+    expect(await getReviewsForCard('merged-card')).toHaveLength(2);
+  });
+});
@@ -1,4 +1,16 @@
 import Dexie, { Table } from 'dexie';
+import {
+  ReviewOutcome,
+  ReviewGrade,
+  Scheduler,
+  SchedulingState,
+  addDays,
+  getEndOfDay,
+  getInitialSchedulingState,
+  getOutcomeGrade,
+  pickSchedulingState,
+  replayReviews
+} from './schedulerService';
 
 // Card data models
 export interface IFlashCard {
@@ -10,9 +22,23 @@ export interface IFlashCard {
   contextKnown?: string[];      // Optional context examples in the known language
   contextLearning?: string[];   // Optional context examples in the learning language
   tags?: string[];        // Optional tags for categorization
-  correctCount: number;   // Count of correct guesses
-  wrongCount: number;     // Count of wrong guesses
-  revisitCount: number;   // Count of times marked for revision
+  correctCount: number;   // Count of correct guesses, in both directions
+  wrongCount: number;     // Count of wrong guesses, in both directions
+  revisitCount: number;   // Count of times marked for revision, in both directions
+  dueAt: string;          // ISO timestamp of the next scheduled review, in the default direction
+  interval: number;       // Current review interval in days, in the default direction
+  easeFactor: number;     // SM-2 easiness factor
+  repetitions: number;    // Consecutive successful reviews
+  leitnerBox?: number;    // Leitner box, when scheduled with Leitner boxes
+  stability?: number;     // FSRS memory stability, when scheduled with FSRS
+  difficulty?: number;    // FSRS difficulty, when scheduled with FSRS
+  lastReviewedAt?: string; // ISO timestamp of the last review
+  status: CardStatus;     // Whether the card is studied
+  buriedUntil?: string;   // ISO timestamp until which a buried card is kept out of study
+  leechDismissedAt?: string; // ISO timestamp of the last time the card was dismissed as a leech
+  deletedAt?: string;     // ISO timestamp of when the card was moved to the trash
+  mergedInto?: string;    // Card this trashed card was merged into, which gives its reviews back on restore
+  directions: Record<StudyDirection, CardProgress>; // Statistics and scheduling of each direction
   createdAt: string;      // ISO timestamp for creation
   updatedAt: string;      // ISO timestamp for last update
 }
@@ -24,15 +50,140 @@ export type INewFlashCard = Pick<IFlashCard, 'id' | 'known' | 'learning' | 'know
   tags?: string[];
 }
 
+// Which side of the card was shown first during a review
+export type StudyDirection = 'knownToLearning' | 'learningToKnown';
+
+// Suspended cards are kept out of study until reactivated, buried cards until their date
+export type CardStatus = 'active' | 'suspended' | 'buried';
+
+// Direction of the statistics recorded before they were kept per direction
+export const DEFAULT_STUDY_DIRECTION: StudyDirection = 'learningToKnown';
+
+// Direction in which a card was swiped out of the learning stack
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+// A single review of a card, recorded on every answer in a learning session
+export interface IReview {
+  id?: number;            // Auto-incremented primary key
+  cardId: string;         // The reviewed card
+  reviewedAt: string;     // ISO timestamp of the review
+  outcome: ReviewOutcome; // The outcome of the review
+  responseTimeMs?: number; // Time between the card being shown and the answer
+  sessionId?: string;     // The learning session the review belongs to
+  direction?: StudyDirection; // The side of the card shown as the prompt
+  chosenCardId?: string;  // In quiz mode, the card whose answer was picked instead of the right one
+  grade?: ReviewGrade;    // How well the answer was known, given by the outcome when not graded
+  swipeDirection?: SwipeDirection; // Direction the card was swiped, in swipe-based sessions
+  isRelearning?: boolean; // Answer to a card already answered in the same session, logged only
+  mergedFrom?: string;    // Card the review was recorded for, before that card was merged into this one
+}
+
+// Session information recorded along with a review
+export type ReviewContext = Pick<IReview, 'responseTimeMs' | 'sessionId' | 'direction' | 'chosenCardId' | 'grade' | 'swipeDirection' | 'isRelearning'>;
+
+// Two cards mistaken for one another in quiz mode
+export interface ConfusedPair {
+  cardId: string;         // The card that was asked
+  confusedWithId: string; // The card whose answer was picked
+  count: number;          // Number of times the mistake was made
+}
+
+// Counters of a card changed by reviews
+export type CardCounters = Pick<IFlashCard, 'correctCount' | 'wrongCount' | 'revisitCount'>;
+
+// Statistics and scheduling of a card in one direction
+export type CardProgress = CardCounters & SchedulingState;
+
+// Exact changes written by a review, so it can be undone and redone
+export interface ReviewRecord {
+  review: IReview;                    // The logged review, with its id
+  delta: CardCounters;                // Amounts added to the counters
+  schedulingBefore: SchedulingState;  // Scheduling of the reviewed direction before the review
+  schedulingAfter: SchedulingState;   // Scheduling of the reviewed direction after the review
+  isNewCard?: boolean;                // Whether it was the first answer given to the card in its direction
+}
+
+// Result of reviewing a card
+export interface ReviewResult {
+  card: IFlashCard;
+  record: ReviewRecord;
+}
+
 // Define the database
 class CardDatabase extends Dexie {
   // Define tables
   cards!: Table<IFlashCard, string>; // string is the type of the primary key
+  reviews!: Table<IReview, number>;
 
   constructor() {
     super('langDeckDatabase');
     
     // Define the schema with indexes
+    this.version(8).stores({
+      cards: 'id, knownLanguage, learningLanguage, createdAt, updatedAt, dueAt',
+      reviews: '++id, cardId, reviewedAt, sessionId'
+    }).upgrade(tx => {
+      // The top-level scheduling used to follow the direction due the soonest, which made every card due
+      return tx.table('cards').toCollection().modify(card => {
+        Object.assign(card, summarizeDirections(getCardDirections(card)));
+      });
+    });
+
+    this.version(7).stores({
+      cards: 'id, knownLanguage, learningLanguage, createdAt, updatedAt, dueAt',
+      reviews: '++id, cardId, reviewedAt, sessionId'
+    }).upgrade(tx => {
+      // Cards suspended from a learning session only had a flag, all others are active
+      return tx.table('cards').toCollection().modify(card => {
+        card.status = card.suspended ? 'suspended' : 'active';
+        delete card.suspended;
+      });
+    });
+
+    this.version(6).stores({
+      cards: 'id, knownLanguage, learningLanguage, createdAt, updatedAt, dueAt',
+      reviews: '++id, cardId, reviewedAt, sessionId'
+    }).upgrade(tx => {
+      // Existing statistics were recorded without a direction: assign them to the default one
+      return tx.table('cards').toCollection().modify(card => {
+        const initialProgress = getNewCardProgress(new Date(card.createdAt));
+        const directions = {
+          learningToKnown: initialProgress,
+          knownToLearning: initialProgress
+        };
+        directions[DEFAULT_STUDY_DIRECTION] = {
+          correctCount: card.correctCount,
+          wrongCount: card.wrongCount,
+          revisitCount: card.revisitCount || 0,
+          ...pickSchedulingState(card)
+        };
+        Object.assign(card, summarizeDirections(directions));
+      });
+    });
+
+    this.version(5).stores({
+      cards: 'id, knownLanguage, learningLanguage, createdAt, updatedAt, dueAt',
+      reviews: '++id, cardId, reviewedAt, sessionId'
+    });
+
+    this.version(4).stores({
+      cards: 'id, knownLanguage, learningLanguage, createdAt, updatedAt, dueAt',
+      reviews: '++id, cardId, reviewedAt'
+    });
+
+    this.version(3).stores({
+      cards: 'id, knownLanguage, learningLanguage, createdAt, updatedAt, dueAt'
+    }).upgrade(tx => {
+      // Existing cards have no scheduling data yet: make them all due now
+      const initialState = getInitialSchedulingState();
+      return tx.table('cards').toCollection().modify(card => {
+        card.dueAt = card.dueAt ?? initialState.dueAt;
+        card.interval = card.interval ?? initialState.interval;
+        card.easeFactor = card.easeFactor ?? initialState.easeFactor;
+        card.repetitions = card.repetitions ?? initialState.repetitions;
+      });
+    });
+
     this.version(2).stores({
       cards: 'id, knownLanguage, learningLanguage, createdAt, updatedAt'
     });
@@ -69,6 +220,114 @@ async function bulkPutNewOnly<T extends { id: string }, P extends Partial<IFlash
   });
 }
 
+function getNewCardProgress(now: Date = new Date()): CardProgress {
+  return {
+    correctCount: 0,
+    wrongCount: 0,
+    revisitCount: 0,
+    ...getInitialSchedulingState(now)
+  };
+}
+
+// Computes the fields of a card summing up its directions: counters add up and the scheduling
+// is the one of the default direction, the only one scheduled before directions existed
+function summarizeDirections(directions: Record<StudyDirection, CardProgress>): CardProgress & Pick<IFlashCard, 'directions'> {
+  const progresses = Object.values(directions);
+
+  return {
+    correctCount: progresses.reduce((sum, progress) => sum + progress.correctCount, 0),
+    wrongCount: progresses.reduce((sum, progress) => sum + progress.wrongCount, 0),
+    revisitCount: progresses.reduce((sum, progress) => sum + (progress.revisitCount || 0), 0),
+    ...pickSchedulingState(directions[DEFAULT_STUDY_DIRECTION]),
+    directions
+  };
+}
+
+// Returns a copy of the card with the statistics and scheduling of one direction replaced
+function setCardProgress(card: IFlashCard, direction: StudyDirection, progress: CardProgress): IFlashCard {
+  return {
+    ...card,
+    ...summarizeDirections({ ...getCardDirections(card), [direction]: progress })
+  };
+}
+
+function getCardDirections(card: IFlashCard): Record<StudyDirection, CardProgress> {
+  return {
+    learningToKnown: getCardProgress(card, 'learningToKnown'),
+    knownToLearning: getCardProgress(card, 'knownToLearning')
+  };
+}
+
+/**
+ * Returns the direction studied when the known or the learning side is shown first
+ * @param showKnownLanguage Whether the known side is shown first
+ * @returns The study direction
+ */
+export function getStudyDirection(showKnownLanguage: boolean): StudyDirection {
+  return showKnownLanguage ? 'knownToLearning' : 'learningToKnown';
+}
+
+/**
+ * Returns the number of answers given to a card
+ * @param counters The counters of the card or of one of its directions
+ * @returns The number of correct, wrong and revisit answers
+ */
+export function getAnswerCount(counters: CardCounters): number {
+  return counters.correctCount + counters.wrongCount + (counters.revisitCount || 0);
+}
+
+/**
+ * Returns the statistics and scheduling of a card in one direction
+ * @param card The card
+ * @param direction The study direction
+ * @returns The progress of the card in that direction
+ */
+export function getCardProgress(card: IFlashCard, direction: StudyDirection): CardProgress {
+  return card.directions?.[direction] ?? getNewCardProgress(new Date(card.createdAt));
+}
+
+/**
+ * Returns the statistics and scheduling fields of a card that has never been studied
+ * @returns The default values to set on a new card
+ */
+export function getNewCardDefaults(): CardProgress & Pick<IFlashCard, 'directions' | 'status'> {
+  const progress = getNewCardProgress();
+  return {
+    ...summarizeDirections({
+      learningToKnown: progress,
+      knownToLearning: progress
+    }),
+    status: 'active'
+  };
+}
+
+/**
+ * Checks whether a card can be studied: suspended cards never are, buried cards once their date has passed
+ * @param card The card to check
+ * @param now The current date
+ * @returns True if the card can be studied
+ */
+export function isCardStudiable(card: IFlashCard, now: Date = new Date()): boolean {
+  if (card.status === 'suspended') {
+    return false;
+  }
+  if (card.status === 'buried') {
+    return !card.buriedUntil || new Date(card.buriedUntil) <= now;
+  }
+  return true;
+}
+
+/**
+ * Returns the date until which a card buried now is kept out of study
+ * @param rolloverHour The hour at which a new study day starts
+ * @param days The number of days the card is buried, 1 to bring it back tomorrow
+ * @param now The current date
+ * @returns The ISO timestamp of the end of the last buried study day
+ */
+export function getBuriedUntil(rolloverHour: number, days: number = 1, now: Date = new Date()): string {
+  return addDays(getEndOfDay(now, rolloverHour), days - 1).toISOString();
+}
+
 /**
  * Adds a new card to the database
  * @param card The card to add
@@ -95,9 +354,7 @@ export async function addMultipleFlashcardsToDB(flashcards: INewFlashCard[]): Pr
     await bulkPutNewOnly(db.cards, flashcards, {
       createdAt: timestamp,
       updatedAt: timestamp,
-      correctCount: 0,
-      wrongCount: 0,
-      revisitCount: 0
+      ...getNewCardDefaults()
     });
     console.log(`Successfully processed ${flashcards.length} flashcards.`);
   } catch (error) {
@@ -107,18 +364,42 @@ export async function addMultipleFlashcardsToDB(flashcards: INewFlashCard[]): Pr
 }
 
 /**
- * Retrieves all cards from the database
+ * Checks whether a card is in the trash
+ * @param card The card to check
+ * @returns True if the card was deleted and not restored yet
+ */
+export function isCardTrashed(card: IFlashCard): boolean {
+  return Boolean(card.deletedAt);
+}
+
+/**
+ * Retrieves all cards from the database, except the ones in the trash
  * @returns A promise that resolves with an array of cards
  */
 export async function getCards(): Promise<IFlashCard[]> {
   try {
-    return await db.cards.toArray();
+    return await db.cards.filter(card => !isCardTrashed(card)).toArray();
   } catch (error) {
     console.error('Error getting cards:', error);
     throw new Error(`Failed to get cards: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/**
+ * Retrieves cards by their ids, skipping the ones that no longer exist or are in the trash
+ * @param ids The ids of the cards
+ * @returns A promise that resolves with the found cards, in the order of the ids
+ */
+export async function getCardsByIds(ids: string[]): Promise<IFlashCard[]> {
+  try {
+    const cards = await db.cards.bulkGet(ids);
+    return cards.filter((card): card is IFlashCard => card !== undefined && !isCardTrashed(card));
+  } catch (error) {
+    console.error('Error getting cards by ids:', error);
+    throw new Error(`Failed to get cards by ids: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Updates an existing card in the database
  * @param card The card with updated values
@@ -140,19 +421,501 @@ export async function updateCard(card: IFlashCard): Promise<void> {
 }
 
 /**
- * Deletes a card from the database
+ * Changes the status of cards: suspends them, buries them until a date or makes them active again
+ * @param cardIds The ids of the cards
+ * @param status The new status
+ * @param buriedUntil ISO timestamp until which buried cards are kept out of study, see getBuriedUntil
+ * @returns A promise that resolves with the updated cards
+ */
+export async function setCardsStatus(cardIds: string[], status: CardStatus, buriedUntil?: string): Promise<IFlashCard[]> {
+  try {
+    const updatedAt = new Date().toISOString();
+    return await db.transaction('rw', db.cards, async () => {
+      const cards = (await db.cards.bulkGet(cardIds)).filter((card): card is IFlashCard => card !== undefined);
+      const updatedCards = cards.map(card => ({
+        ...card,
+        status,
+        buriedUntil: status === 'buried' ? buriedUntil : undefined,
+        updatedAt
+      }));
+      await db.cards.bulkPut(updatedCards);
+      return updatedCards;
+    });
+  } catch (error) {
+    console.error('Error changing card status:', error);
+    throw new Error(`Failed to change card status: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Checks whether a review counts in the statistics and the scheduling of its card
+ * @param review The logged review
+ * @returns False for the answers given again to relearn a card during a session
+ */
+export function isCountedReview(review: Pick<IReview, 'isRelearning'>): boolean {
+  return !review.isRelearning;
+}
+
+/**
+ * Records the outcome of a review: updates the counters, logs the review and schedules the next one.
+ * Relearning answers are only logged: the first answer of the session already scheduled the card.
+ * The daily goal is left to the caller, see recordReviewStudy.
+ * @param card The reviewed card
+ * @param outcome The outcome of the review
+ * @param scheduler The scheduler used to compute the next review
+ * @param context Session information to record with the review
+ * @returns A promise that resolves with the updated card and the record needed to undo the review
+ */
+export async function reviewCard(
+  card: IFlashCard,
+  outcome: ReviewOutcome,
+  scheduler: Scheduler,
+  context: ReviewContext = {}
+): Promise<ReviewResult> {
+  try {
+    const now = new Date();
+    const direction = context.direction ?? DEFAULT_STUDY_DIRECTION;
+    const grade = context.grade ?? getOutcomeGrade(outcome);
+    const isCounted = isCountedReview(context);
+    const delta: CardCounters = {
+      correctCount: isCounted && outcome === 'correct' ? 1 : 0,
+      wrongCount: isCounted && outcome === 'wrong' ? 1 : 0,
+      revisitCount: isCounted && outcome === 'revisit' ? 1 : 0
+    };
+    const review: IReview = { ...context, direction, grade, cardId: card.id, reviewedAt: now.toISOString(), outcome };
+    let schedulingBefore = pickSchedulingState(getCardProgress(card, direction));
+    let schedulingAfter = schedulingBefore;
+    let isNewCard = false;
+
+    const reviewedCard = await db.transaction('rw', db.cards, db.reviews, async () => {
+      // Start from the stored card, which may have changed since it was loaded
+      const storedCard = await db.cards.get(card.id) ?? card;
+      const progress = getCardProgress(storedCard, direction);
+      schedulingBefore = pickSchedulingState(progress);
+      if (!isCounted) {
+        schedulingAfter = schedulingBefore;
+        review.id = await db.reviews.add(review);
+        return storedCard;
+      }
+
+      // New in the direction studied, as in the session queue
+      isNewCard = getAnswerCount(progress) === 0;
+      schedulingAfter = scheduler.next(schedulingBefore, grade, now);
+      const updatedCard: IFlashCard = {
+        ...setCardProgress(storedCard, direction, {
+          ...applyCounterDelta(progress, delta, 1),
+          ...schedulingAfter
+        }),
+        updatedAt: now.toISOString()
+      };
+      await db.cards.put(updatedCard);
+      review.id = await db.reviews.add(review);
+      return updatedCard;
+    });
+
+    return {
+      card: reviewedCard,
+      record: { review, delta, schedulingBefore, schedulingAfter, isNewCard }
+    };
+  } catch (error) {
+    console.error('Error reviewing card:', error);
+    throw new Error(`Failed to review card: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function applyCounterDelta(card: CardCounters, delta: CardCounters, sign: 1 | -1): CardCounters {
+  return {
+    correctCount: Math.max(0, card.correctCount + sign * delta.correctCount),
+    wrongCount: Math.max(0, card.wrongCount + sign * delta.wrongCount),
+    revisitCount: Math.max(0, (card.revisitCount || 0) + sign * delta.revisitCount)
+  };
+}
+
+/**
+ * Reverts the changes written by a review and removes it from the history
+ * @param record The record returned when the review was made
+ * @returns A promise that resolves with the updated card
+ */
+export async function undoReview(record: ReviewRecord): Promise<IFlashCard> {
+  try {
+    const undoneCard = await db.transaction('rw', db.cards, db.reviews, async () => {
+      const storedCard = await db.cards.get(record.review.cardId);
+      if (!storedCard) {
+        throw new Error('Card not found');
+      }
+      // A review undone twice would take its counts back twice
+      if (record.review.id !== undefined && !(await db.reviews.get(record.review.id))) {
+        throw new Error('Review already undone');
+      }
+
+      const direction = record.review.direction ?? DEFAULT_STUDY_DIRECTION;
+      const updatedCard: IFlashCard = {
+        ...setCardProgress(storedCard, direction, {
+          ...applyCounterDelta(getCardProgress(storedCard, direction), record.delta, -1),
+          ...record.schedulingBefore
+        }),
+        updatedAt: new Date().toISOString()
+      };
+      await db.cards.put(updatedCard);
+      if (record.review.id !== undefined) {
+        await db.reviews.delete(record.review.id);
+      }
+      return updatedCard;
+    });
+    return undoneCard;
+  } catch (error) {
+    console.error('Error undoing review:', error);
+    throw new Error(`Failed to undo review: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Writes again the changes of an undone review and puts it back in the history
+ * @param record The record returned when the review was made
+ * @returns A promise that resolves with the updated card
+ */
+export async function redoReview(record: ReviewRecord): Promise<IFlashCard> {
+  try {
+    const redoneCard = await db.transaction('rw', db.cards, db.reviews, async () => {
+      const storedCard = await db.cards.get(record.review.cardId);
+      if (!storedCard) {
+        throw new Error('Card not found');
+      }
+      if (record.review.id !== undefined && await db.reviews.get(record.review.id)) {
+        throw new Error('Review already redone');
+      }
+
+      const direction = record.review.direction ?? DEFAULT_STUDY_DIRECTION;
+      const updatedCard: IFlashCard = {
+        ...setCardProgress(storedCard, direction, {
+          ...applyCounterDelta(getCardProgress(storedCard, direction), record.delta, 1),
+          ...record.schedulingAfter
+        }),
+        updatedAt: new Date().toISOString()
+      };
+      await db.cards.put(updatedCard);
+      await db.reviews.put(record.review);
+      return updatedCard;
+    });
+    return redoneCard;
+  } catch (error) {
+    console.error('Error redoing review:', error);
+    throw new Error(`Failed to redo review: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Retrieves the whole review history
+ * @returns A promise that resolves with the reviews, oldest first
+ */
+export async function getReviews(): Promise<IReview[]> {
+  try {
+    return await db.reviews.orderBy('reviewedAt').toArray();
+  } catch (error) {
+    console.error('Error getting reviews:', error);
+    throw new Error(`Failed to get reviews: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Retrieves the review history of a card
+ * @param cardId The id of the card
+ * @returns A promise that resolves with the reviews, oldest first
+ */
+export async function getReviewsForCard(cardId: string): Promise<IReview[]> {
+  try {
+    return await db.reviews.where('cardId').equals(cardId).sortBy('reviewedAt');
+  } catch (error) {
+    console.error('Error getting reviews for card:', error);
+    throw new Error(`Failed to get reviews for card: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Retrieves the reviews made during a study day
+ * @param date Any moment within the study day
+ * @param rolloverHour The hour at which a new study day starts
+ * @returns A promise that resolves with the reviews, oldest first
+ */
+export async function getReviewsForDay(date: Date, rolloverHour: number): Promise<IReview[]> {
+  try {
+    // The study day starts at the rollover hour of the calendar day it belongs to
+    const startOfDay = new Date(date);
+    startOfDay.setHours(startOfDay.getHours() - rolloverHour);
+    startOfDay.setHours(rolloverHour, 0, 0, 0);
+    const endOfDay = getEndOfDay(date, rolloverHour);
+
+    return await db.reviews
+      .where('reviewedAt')
+      .between(startOfDay.toISOString(), endOfDay.toISOString(), true, true)
+      .toArray();
+  } catch (error) {
+    console.error('Error getting reviews for day:', error);
+    throw new Error(`Failed to get reviews for day: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Retrieves the reviews made during a study session
+ * @param sessionId The id of the session
+ * @returns A promise that resolves with the reviews, oldest first
+ */
+export async function getReviewsForSession(sessionId: string): Promise<IReview[]> {
+  try {
+    return await db.reviews.where('sessionId').equals(sessionId).sortBy('reviewedAt');
+  } catch (error) {
+    console.error('Error getting reviews for session:', error);
+    throw new Error(`Failed to get reviews for session: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Retrieves the pairs of cards most often mistaken for one another in quiz mode
+ * @param cardIds The ids of the asked cards to consider, all cards if omitted
+ * @returns A promise that resolves with the pairs, most frequent first
+ */
+export async function getConfusedPairs(cardIds?: string[]): Promise<ConfusedPair[]> {
+  try {
+    const reviews = cardIds
+      ? db.reviews.where('cardId').anyOf(cardIds)
+      : db.reviews.toCollection();
+    const confusions = await reviews.filter(review => Boolean(review.chosenCardId)).toArray();
+
+    const pairs = new Map<string, ConfusedPair>();
+    confusions.forEach(review => {
+      const key = `${review.cardId}|${review.chosenCardId}`;
+      const pair = pairs.get(key) ?? { cardId: review.cardId, confusedWithId: review.chosenCardId!, count: 0 };
+      pair.count++;
+      pairs.set(key, pair);
+    });
+
+    return Array.from(pairs.values()).sort((a, b) => b.count - a.count);
+  } catch (error) {
+    console.error('Error getting confused pairs:', error);
+    throw new Error(`Failed to get confused pairs: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Recomputes the correct, wrong and revisit counters of cards from their review history.
+ * Reviews made before the history was recorded are lost, so only use this on cards fully covered by it.
+ * @param cardIds The ids of the cards to rebuild, all cards if omitted
+ * @returns A promise that resolves with the number of updated cards
+ */
+export async function rebuildCardCounters(cardIds?: string[]): Promise<number> {
+  try {
+    let updatedCount = 0;
+
+    await db.transaction('rw', db.cards, db.reviews, async () => {
+      const cards = cardIds ? await db.cards.bulkGet(cardIds) : await db.cards.toArray();
+
+      for (const card of cards) {
+        if (!card) continue;
+
+        const reviews = (await db.reviews.where('cardId').equals(card.id).toArray()).filter(isCountedReview);
+        const directions = getCardDirections(card);
+        (Object.keys(directions) as StudyDirection[]).forEach(direction => {
+          const directionReviews = reviews.filter(review => (review.direction ?? DEFAULT_STUDY_DIRECTION) === direction);
+          directions[direction] = {
+            ...directions[direction],
+            correctCount: directionReviews.filter(review => review.outcome === 'correct').length,
+            wrongCount: directionReviews.filter(review => review.outcome === 'wrong').length,
+            revisitCount: directionReviews.filter(review => review.outcome === 'revisit').length
+          };
+        });
+        await db.cards.put({ ...card, ...summarizeDirections(directions) });
+        updatedCount++;
+      }
+    });
+
+    return updatedCount;
+  } catch (error) {
+    console.error('Error rebuilding card counters:', error);
+    throw new Error(`Failed to rebuild card counters: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Recomputes the scheduling of every card with another scheduler, replaying the review history.
+ * Cards reviewed before the history was recorded keep their current due date.
+ * @param scheduler The scheduler to switch to
+ * @returns A promise that resolves with the number of rescheduled cards
+ */
+export async function rescheduleCards(scheduler: Scheduler): Promise<number> {
+  try {
+    let rescheduledCount = 0;
+
+    await db.transaction('rw', db.cards, db.reviews, async () => {
+      const [cards, reviews] = await Promise.all([db.cards.toArray(), db.reviews.orderBy('reviewedAt').toArray()]);
+
+      const reviewsByCard = new Map<string, IReview[]>();
+      reviews.filter(isCountedReview).forEach(review => {
+        reviewsByCard.set(review.cardId, [...(reviewsByCard.get(review.cardId) || []), review]);
+      });
+
+      for (const card of cards) {
+        const cardReviews = reviewsByCard.get(card.id) || [];
+        const directions = getCardDirections(card);
+        let isFullyReplayed = true;
+
+        (Object.keys(directions) as StudyDirection[]).forEach(direction => {
+          const progress = directions[direction];
+          const directionReviews = cardReviews.filter(review => (review.direction ?? DEFAULT_STUDY_DIRECTION) === direction);
+          const reviewCount = getAnswerCount(progress);
+
+          if (directionReviews.length >= reviewCount) {
+            directions[direction] = {
+              ...progress,
+              leitnerBox: undefined,
+              stability: undefined,
+              difficulty: undefined,
+              lastReviewedAt: undefined,
+              ...replayReviews(directionReviews, scheduler, card.createdAt)
+            };
+          } else {
+            // Incomplete history: keep the due date and let the new scheduler derive its parameters
+            directions[direction] = {
+              ...progress,
+              leitnerBox: undefined,
+              stability: undefined,
+              difficulty: undefined
+            };
+            isFullyReplayed = false;
+          }
+        });
+
+        await db.cards.put({ ...card, ...summarizeDirections(directions) });
+        if (isFullyReplayed) {
+          rescheduledCount++;
+        }
+      }
+    });
+
+    return rescheduledCount;
+  } catch (error) {
+    console.error('Error rescheduling cards:', error);
+    throw new Error(`Failed to reschedule cards: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Moves a card to the trash, where it keeps its history until restored or purged
  * @param id The id of the card to delete
  * @returns A promise that resolves when the operation is complete
  */
 export async function deleteCard(id: string): Promise<void> {
   try {
-    await db.cards.delete(id);
+    const deletedAt = new Date().toISOString();
+    await db.cards.update(id, { deletedAt, updatedAt: deletedAt });
   } catch (error) {
     console.error('Error deleting card:', error);
     throw new Error(`Failed to delete card: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/**
+ * Retrieves the cards in the trash
+ * @returns A promise that resolves with the trashed cards, most recently deleted first
+ */
+export async function getTrashedCards(): Promise<IFlashCard[]> {
+  try {
+    const cards = await db.cards.filter(isCardTrashed).toArray();
+    return cards.sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+  } catch (error) {
+    console.error('Error getting trashed cards:', error);
+    throw new Error(`Failed to get trashed cards: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Takes cards out of the trash. Merged cards take their reviews and counts back from the card they were merged into.
+ * @param ids The ids of the cards to restore
+ * @returns A promise that resolves with the restored cards
+ */
+export async function restoreCards(ids: string[]): Promise<IFlashCard[]> {
+  try {
+    const updatedAt = new Date().toISOString();
+    return await db.transaction('rw', db.cards, db.reviews, async () => {
+      const cards = (await db.cards.bulkGet(ids)).filter((card): card is IFlashCard => card !== undefined);
+      const restoredCards = cards.map(({ deletedAt, mergedInto, ...card }) => ({ ...card, updatedAt }));
+
+      for (const card of cards) {
+        if (!card.mergedInto) continue;
+
+        await db.reviews
+          .where('cardId')
+          .equals(card.mergedInto)
+          .filter(review => review.mergedFrom === card.id)
+          .modify(review => {
+            review.cardId = card.id;
+            delete review.mergedFrom;
+          });
+
+        // The kept card summed the counts of the merged cards
+        const keptCard = await db.cards.get(card.mergedInto);
+        if (keptCard) {
+          const keptDirections = getCardDirections(keptCard);
+          (Object.keys(keptDirections) as StudyDirection[]).forEach(direction => {
+            const { correctCount, wrongCount, revisitCount } = getCardProgress(card, direction);
+            keptDirections[direction] = {
+              ...keptDirections[direction],
+              ...applyCounterDelta(keptDirections[direction], { correctCount, wrongCount, revisitCount: revisitCount || 0 }, -1)
+            };
+          });
+          await db.cards.put({ ...keptCard, ...summarizeDirections(keptDirections), updatedAt });
+        }
+      }
+
+      await db.cards.bulkPut(restoredCards);
+      return restoredCards;
+    });
+  } catch (error) {
+    console.error('Error restoring cards:', error);
+    throw new Error(`Failed to restore cards: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Permanently deletes cards and their review history
+ * @param ids The ids of the cards to purge
+ * @returns A promise that resolves when the operation is complete
+ */
+export async function purgeCards(ids: string[]): Promise<void> {
+  try {
+    await db.transaction('rw', db.cards, db.reviews, async () => {
+      await db.cards.bulkDelete(ids);
+      await db.reviews.where('cardId').anyOf(ids).delete();
+    });
+  } catch (error) {
+    console.error('Error purging cards:', error);
+    throw new Error(`Failed to purge cards: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Permanently deletes the cards that have been in the trash for too long
+ * @param retentionDays Number of days cards are kept in the trash, they are never purged when 0
+ * @param now The current time
+ * @returns A promise that resolves with the number of purged cards
+ */
+export async function purgeExpiredTrash(retentionDays: number, now: Date = new Date()): Promise<number> {
+  try {
+    if (retentionDays <= 0) {
+      return 0;
+    }
+
+    const expiry = addDays(now, -retentionDays).toISOString();
+    const expiredCards = (await getTrashedCards()).filter(card => card.deletedAt! <= expiry);
+    if (expiredCards.length > 0) {
+      await purgeCards(expiredCards.map(card => card.id));
+    }
+    return expiredCards.length;
+  } catch (error) {
+    console.error('Error purging expired trash:', error);
+    throw new Error(`Failed to purge expired trash: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Retrieves cards filtered by tags
  * @param tags The tags to filter by
@@ -167,7 +930,7 @@ export async function getCardsByTags(tags: string[]): Promise<IFlashCard[]> {
     return await db.cards
       .filter(card => {
         // Check if the card has at least one of the specified tags
-        return card.tags?.some(tag => tags.includes(tag)) ?? false;
+        return !isCardTrashed(card) && (card.tags?.some(tag => tags.includes(tag)) ?? false);
       })
       .toArray();
   } catch (error) {
@@ -220,7 +983,7 @@ export async function getCardsByLanguages(knownLanguage: string, learningLanguag
     return await db.cards
       .where('knownLanguage')
       .equals(knownLanguage)
-      .and(card => card.learningLanguage === learningLanguage)
+      .and(card => card.learningLanguage === learningLanguage && !isCardTrashed(card))
       .toArray();
   } catch (error) {
     console.error('Error getting cards by languages:', error);
@@ -241,6 +1004,7 @@ export async function convertLanguage(
   fieldType: 'knownLanguage' | 'learningLanguage'
 ): Promise<number> {
   try {
+    // Trashed cards are converted too, so they still match their language once restored
     const cardsToUpdate = await db.cards
       .where(fieldType)
       .equals(sourceLanguage)
@@ -270,7 +1034,8 @@ export async function convertLanguage(
 }
 
 /**
- * Merges multiple cards into one, keeping the first card and deleting others
+ * Merges multiple cards into one, keeping the first card and moving the others to the trash.
+ * Their reviews and counts go to the kept card until they are restored.
  * @param cards Array of cards to merge (first card will be kept)
  * @returns A promise that resolves when the operation is complete
  */
@@ -295,21 +1060,39 @@ export async function mergeCards(cards: IFlashCard[]): Promise<void> {
     ...cardsToDelete.flatMap(card => card.tags || [])
   ]));
 
-  // Sum up the counts
+  // Sum up the counts of each direction, keeping the scheduling of the base card
+  const mergedDirections = getCardDirections(baseCard);
+  (Object.keys(mergedDirections) as StudyDirection[]).forEach(direction => {
+    const progresses = cards.map(card => getCardProgress(card, direction));
+    mergedDirections[direction] = {
+      ...mergedDirections[direction],
+      correctCount: progresses.reduce((sum, progress) => sum + progress.correctCount, 0),
+      wrongCount: progresses.reduce((sum, progress) => sum + progress.wrongCount, 0),
+      revisitCount: progresses.reduce((sum, progress) => sum + (progress.revisitCount || 0), 0)
+    };
+  });
+
   const mergedCard: IFlashCard = {
     ...baseCard,
     contextKnown: mergedContextKnown,
     contextLearning: mergedContextLearning,
     tags: mergedTags,
-    correctCount: cards.reduce((sum, card) => sum + card.correctCount, 0),
-    wrongCount: cards.reduce((sum, card) => sum + card.wrongCount, 0),
-    revisitCount: cards.reduce((sum, card) => sum + card.revisitCount, 0),
+    ...summarizeDirections(mergedDirections),
     updatedAt: new Date().toISOString()
   };
 
   // Use a transaction to ensure all operations complete or none do
-  await db.transaction('rw', db.cards, async () => {
+  await db.transaction('rw', db.cards, db.reviews, async () => {
     await db.cards.put(mergedCard);
-    await db.cards.bulkDelete(cardsToDelete.map(card => card.id));
+    const deletedAt = mergedCard.updatedAt;
+    await db.cards.bulkPut(cardsToDelete.map(card => ({ ...card, deletedAt, mergedInto: baseCard.id, updatedAt: deletedAt })));
+    // Keep the review history of the merged cards, with the card it was recorded for
+    await db.reviews
+      .where('cardId')
+      .anyOf(cardsToDelete.map(card => card.id))
+      .modify(review => {
+        review.mergedFrom = review.cardId;
+        review.cardId = baseCard.id;
+      });
   });
 }
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { IFlashCard, getNewCardDefaults } from './cardService';
+import { buildClozeQuestion, findInSentence, isInflectedForm } from './clozeService';
+
+const card = (overrides: Partial<IFlashCard>): IFlashCard => ({
+  id: 'card',
+  known: 'manger',
+  learning: 'eat',
+  knownLanguage: 'Français',
+  learningLanguage: 'Anglais',
+  ...getNewCardDefaults(),
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('isInflectedForm', () => {
+  it.each([
+    ['studies', 'study'],
+    ['studied', 'study'],
+    ['studying', 'study'],
+    ['carts', 'cart'],
+    ['stopped', 'stop'],
+    ['making', 'make'],
+    ['mangeons', 'manger'],
+    ['mange', 'manger'],
+    ['finissons', 'finir'],
+    ['vendu', 'vendre']
+  ])('accepts %s as a form of %s', (token, word) => {
+    expect(isInflectedForm(token, word)).toBe(true);
+  });
+
+  it.each([
+    ['student', 'study'],
+    ['cartoon', 'cart'],
+    ['carpet', 'cart'],
+    ['stopwatch', 'stop']
+  ])('rejects %s as a form of %s', (token, word) => {
+    expect(isInflectedForm(token, word)).toBe(false);
+  });
+
+  it('only accepts exact matches of short words', () => {
+    expect(isInflectedForm('eat', 'eat')).toBe(true);
+    expect(isInflectedForm('eats', 'eat')).toBe(false);
+  });
+});
+
+describe('findInSentence', () => {
+  it('finds an expression across several words', () => {
+    const sentence = 'She gave up smoking.';
+    expect(findInSentence(sentence, 'give up', false)).toBeNull();
+    expect(findInSentence(sentence, 'gave up', false)).toEqual({ start: 4, end: 11 });
+  });
+
+  it('ignores case and diacritics', () => {
+    expect(findInSentence('Le Café est chaud', 'cafe')).toEqual({ start: 3, end: 7 });
+  });
+});
+
+describe('buildClozeQuestion', () => {
+  it('blanks the word out of the sentence with its translation as a hint', () => {
+    const question = buildClozeQuestion(card({
+      learning: 'study',
+      contextLearning: ['The students study every night.'],
+      contextKnown: ['Les étudiants étudient chaque soir.']
+    }));
+    expect(question).toEqual({
+      before: 'The students ',
+      answer: 'study',
+      after: ' every night.',
+      hint: 'Les étudiants étudient chaque soir.'
+    });
+  });
+
+  it('falls back to an inflected form', () => {
+    const question = buildClozeQuestion(card({ learning: 'study', contextLearning: ['He studied all day.'] }));
+    expect(question?.answer).toBe('studied');
+  });
+
+  it('returns null when the word is in none of the sentences', () => {
+    expect(buildClozeQuestion(card({ learning: 'study', contextLearning: ['A student sleeps.'] }))).toBeNull();
+  });
+});
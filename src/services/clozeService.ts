@@ -0,0 +1,147 @@
+// Cloze deletion: blanks the learning word out of a context sentence of the card
+import { IFlashCard } from './cardService';
+import { getAcceptedAnswers, normalizeAnswer } from './answerGrading';
+
+export interface ClozeQuestion {
+  before: string;   // Part of the sentence before the blank
+  answer: string;   // Word(s) removed from the sentence, as written in it
+  after: string;    // Part of the sentence after the blank
+  hint?: string;    // Translation of the sentence, when the card has one
+}
+
+interface Token {
+  text: string;
+  normalized: string;
+  start: number;
+  end: number;
+}
+
+// Words of a sentence, apostrophes splitting elisions such as "l'homme"
+const WORD_PATTERN = /[\p{L}\p{N}-]+/gu;
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    text: match[0],
+    normalized: normalizeAnswer(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+}
+
+// Ways a word is inflected: the ending of its dictionary form and the endings replacing it.
+// Covers the regular English forms and the French verb groups, diacritics removed.
+const INFLECTIONS: { ending: string; suffixes: string[] }[] = [
+  { ending: '', suffixes: ['s', 'es', 'd', 'ed', 'ing', 'er', 'ers', 'est', 'ly'] },
+  { ending: 'e', suffixes: ['ed', 'er', 'ers', 'est', 'ing'] },
+  { ending: 'y', suffixes: ['ies', 'ied', 'ier', 'iest', 'ying', 'ily'] },
+  {
+    ending: 'er',
+    suffixes: [
+      'e', 'es', 'ent', 'ons', 'eons', 'ez', 'ais', 'ait', 'aient', 'eais', 'eait', 'eaient', 'ions', 'iez',
+      'ai', 'as', 'a', 'ea', 'erai', 'eras', 'era', 'erons', 'erez', 'eront', 'erais', 'erait', 'eraient',
+      'ant', 'eant', 'ee', 'ees'
+    ]
+  },
+  {
+    ending: 'ir',
+    suffixes: [
+      'is', 'it', 'issons', 'issez', 'issent', 'issais', 'issait', 'issaient', 'issant', 'i', 'ie', 'ies',
+      'irai', 'iras', 'ira', 'irons', 'irez', 'iront', 'irais', 'irait', 'iraient'
+    ]
+  },
+  {
+    ending: 're',
+    suffixes: [
+      '', 's', 'ons', 'ez', 'ent', 'ais', 'ait', 'aient', 'ions', 'iez', 'ant', 'u', 'ue', 'us', 'ues',
+      'rai', 'ras', 'ra', 'rons', 'rez', 'ront', 'rais', 'rait', 'raient'
+    ]
+  }
+];
+
+// Endings after which the last consonant of a short English word is doubled, as in "stopped"
+const DOUBLING_SUFFIXES = ['ed', 'ing', 'er', 'est'];
+
+// Shortest stem left once the ending of the dictionary form is removed
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Checks whether a word of a sentence is an inflected form of a word of the card,
+ * made of its stem and a known ending: "mangeons" matches "manger", "studies" matches "study"
+ * @param token The normalized word of the sentence
+ * @param word The normalized word of the card
+ * @returns True if the word of the sentence is a form of the word of the card
+ */
+export function isInflectedForm(token: string, word: string): boolean {
+  if (token === word) return true;
+  // Too short to tell an inflection from another word
+  if (word.length < 4) return false;
+
+  return INFLECTIONS.some(({ ending, suffixes }) => {
+    if (!word.endsWith(ending)) return false;
+
+    const stem = word.slice(0, word.length - ending.length);
+    if (stem.length < MIN_STEM_LENGTH) return false;
+
+    return suffixes.some(suffix =>
+      token === stem + suffix ||
+      (ending === '' && DOUBLING_SUFFIXES.includes(suffix) && token === stem + stem[stem.length - 1] + suffix)
+    );
+  });
+}
+
+/**
+ * Finds the words of the card in a sentence
+ * @param sentence The context sentence
+ * @param expression The word or expression to find
+ * @param allowInflections Whether inflected forms are accepted, or only exact matches
+ * @returns The position of the match in the sentence, or null if it is not found
+ */
+export function findInSentence(
+  sentence: string,
+  expression: string,
+  allowInflections: boolean = true
+): { start: number; end: number } | null {
+  const tokens = tokenize(sentence);
+  const words = tokenize(expression).map(token => token.normalized).filter(Boolean);
+  if (!words.length) return null;
+
+  for (let i = 0; i + words.length <= tokens.length; i++) {
+    const window = tokens.slice(i, i + words.length);
+    const matches = window.every((token, index) =>
+      allowInflections ? isInflectedForm(token.normalized, words[index]) : token.normalized === words[index]
+    );
+    if (matches) {
+      return { start: window[0].start, end: window[window.length - 1].end };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Builds a cloze question from the context sentences of a card, preferring exact matches of the word
+ * @param card The card
+ * @returns The question, or null if the word appears in none of the sentences
+ */
+export function buildClozeQuestion(card: IFlashCard): ClozeQuestion | null {
+  const sentences = card.contextLearning ?? [];
+  const expressions = getAcceptedAnswers(card.learning);
+
+  for (const allowInflections of [false, true]) {
+    for (const [index, sentence] of sentences.entries()) {
+      for (const expression of expressions) {
+        const match = findInSentence(sentence, expression, allowInflections);
+        if (match) {
+          return {
+            before: sentence.slice(0, match.start),
+            answer: sentence.slice(match.start, match.end),
+            after: sentence.slice(match.end),
+            hint: card.contextKnown?.[index] ?? card.contextKnown?.[0]
+          };
+        }
+      }
+    }
+  }
+
+  return null;
+}
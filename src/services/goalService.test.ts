@@ -0,0 +1,101 @@
+import 'fake-indexeddb/auto';
+import { ReviewRecord } from './cardService';
+import { getInitialSchedulingState } from './schedulerService';
+import {
+  StudyDay,
+  getGoalProgress,
+  getStreaks,
+  getTodayStudy,
+  isGoalMet,
+  recordReviewStudy,
+  recordStudy,
+  shiftDayKey
+} from './goalService';
+
+const studyDay = (day: string, reviewCount: number, overrides: Partial<StudyDay> = {}): StudyDay => ({
+  day,
+  reviewCount,
+  newCardCount: 0,
+  goalType: 'reviews',
+  goal: 10,
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const record = (reviewedAt: Date, overrides: Partial<ReviewRecord> = {}): ReviewRecord => {
+  const scheduling = getInitialSchedulingState(reviewedAt);
+  return {
+    review: { cardId: 'card', outcome: 'correct', reviewedAt: reviewedAt.toISOString() },
+    delta: { correctCount: 1, wrongCount: 0, revisitCount: 0 },
+    schedulingBefore: scheduling,
+    schedulingAfter: scheduling,
+    ...overrides
+  };
+};
+
+describe('shiftDayKey', () => {
+  it('moves across months and years', () => {
+    expect(shiftDayKey('2024-03-01', -1)).toBe('2024-02-29');
+    expect(shiftDayKey('2024-12-31', 1)).toBe('2025-01-01');
+  });
+});
+
+describe('isGoalMet', () => {
+  it('compares the goal with what the day counts', () => {
+    expect(isGoalMet(studyDay('2024-03-10', 10))).toBe(true);
+    expect(isGoalMet(studyDay('2024-03-10', 9))).toBe(false);
+    expect(isGoalMet(studyDay('2024-03-10', 30, { goalType: 'newCards', newCardCount: 2 }))).toBe(false);
+  });
+});
+
+describe('getStreaks', () => {
+  const days = [
+    studyDay('2024-03-01', 10),
+    studyDay('2024-03-02', 12),
+    studyDay('2024-03-03', 15),
+    studyDay('2024-03-04', 3),
+    studyDay('2024-03-08', 10),
+    studyDay('2024-03-09', 10)
+  ];
+
+  it('keeps the current streak while today is not done yet', () => {
+    expect(getStreaks(days, '2024-03-10')).toEqual({ streak: 2, longestStreak: 3 });
+    expect(getStreaks([...days, studyDay('2024-03-10', 10)], '2024-03-10')).toEqual({ streak: 3, longestStreak: 3 });
+  });
+
+  it('breaks the streak after a missed day', () => {
+    expect(getStreaks(days, '2024-03-11')).toEqual({ streak: 0, longestStreak: 3 });
+  });
+});
+
+describe('recordReviewStudy', () => {
+  it('counts the reviews on the study day they were given, and takes the undone ones back', async () => {
+    // The default study day starts at 4 in the morning
+    const lateAnswer = record(new Date(2024, 4, 2, 2), { isNewCard: true });
+    await recordReviewStudy(lateAnswer);
+    await recordReviewStudy(record(new Date(2024, 4, 2, 9)));
+    await recordReviewStudy(record(new Date(2024, 4, 2, 9), {
+      review: { cardId: 'card', outcome: 'correct', reviewedAt: new Date(2024, 4, 2, 9).toISOString(), isRelearning: true }
+    }));
+
+    await expect(getTodayStudy(4, new Date(2024, 4, 1, 22))).resolves.toEqual({ reviewCount: 1, newCardCount: 1 });
+    await expect(getTodayStudy(4, new Date(2024, 4, 2, 12))).resolves.toEqual({ reviewCount: 1, newCardCount: 0 });
+
+    await recordReviewStudy(lateAnswer, -1);
+    await expect(getTodayStudy(4, new Date(2024, 4, 1, 22))).resolves.toEqual({ reviewCount: 0, newCardCount: 0 });
+  });
+});
+
+describe('getGoalProgress', () => {
+  it('judges today with the current goal and counts the streak up to it', async () => {
+    await recordStudy(new Date(2024, 5, 1, 12), 5, 0);
+    await recordStudy(new Date(2024, 5, 2, 12), 5, 0);
+    await recordStudy(new Date(2024, 5, 3, 12), 2, 1);
+
+    const progress = await getGoalProgress(
+      { dailyGoalType: 'reviews', dailyGoal: 2, dayRolloverHour: 4 },
+      new Date(2024, 5, 3, 18)
+    );
+    expect(progress).toEqual({ goalType: 'reviews', goal: 2, done: 2, streak: 1, longestStreak: 1, isTodayMet: true });
+  });
+});
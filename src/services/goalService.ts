@@ -0,0 +1,212 @@
+import Dexie, { Table } from 'dexie';
+import { ReviewRecord, isCountedReview } from './cardService';
+import { getOrCreateSettings, Settings } from './settingsService';
+import { getDayKey, getStudyDayKey } from './statsService';
+
+// What the daily goal counts
+export type DailyGoalType = 'reviews' | 'newCards';
+
+export const DAILY_GOAL_LABELS: Record<DailyGoalType, string> = {
+  reviews: 'Reviews',
+  newCards: 'New cards'
+};
+
+// Study done on a day, kept apart from the review history so streaks survive purged cards
+export interface StudyDay {
+  day: string;              // Day key (YYYY-MM-DD) of the study day, which starts at the rollover hour
+  reviewCount: number;      // Number of answers given
+  newCardCount: number;     // Number of cards answered for the first time
+  goalType: DailyGoalType;  // Goal in force on that day
+  goal: number;
+  updatedAt: string;        // ISO timestamp of the last change
+}
+
+// Progress towards the daily goal
+export interface GoalProgress {
+  goalType: DailyGoalType;
+  goal: number;
+  done: number;             // Reviews or new cards counted today
+  streak: number;           // Consecutive days the goal was met, up to today
+  longestStreak: number;
+  isTodayMet: boolean;
+}
+
+// Define the database
+class GoalDatabase extends Dexie {
+  // Define tables
+  studyDays!: Table<StudyDay, string>; // string is the type of the primary key
+
+  constructor() {
+    super('langDeckGoalDatabase');
+
+    // Define the schema
+    this.version(1).stores({
+      studyDays: 'day'
+    });
+  }
+}
+
+// Create a database instance
+const db = new GoalDatabase();
+
+/**
+ * Moves a day key by a number of calendar days
+ * @param dayKey The day key
+ * @param days The number of days to add, negative to go back
+ * @returns The day key of the resulting day
+ */
+export function shiftDayKey(dayKey: string, days: number): string {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return getDayKey(new Date(year, month - 1, day + days));
+}
+
+/**
+ * Checks whether the goal of a study day was met
+ * @param studyDay The study day
+ * @returns True if enough reviews or new cards were done
+ */
+export function isGoalMet(studyDay: StudyDay): boolean {
+  const done = studyDay.goalType === 'newCards' ? studyDay.newCardCount : studyDay.reviewCount;
+  return done >= studyDay.goal;
+}
+
+/**
+ * Computes the current and longest streaks of days the goal was met.
+ * The current streak is kept while today's goal isn't met yet.
+ * @param studyDays The study days, in any order
+ * @param todayKey The day key of the current study day
+ * @returns The current and longest streaks, in days
+ */
+export function getStreaks(studyDays: StudyDay[], todayKey: string): { streak: number; longestStreak: number } {
+  const metDays = new Set(studyDays.filter(isGoalMet).map(studyDay => studyDay.day));
+
+  let streak = 0;
+  let day = metDays.has(todayKey) ? todayKey : shiftDayKey(todayKey, -1);
+  while (metDays.has(day)) {
+    streak++;
+    day = shiftDayKey(day, -1);
+  }
+
+  let longestStreak = 0;
+  metDays.forEach(metDay => {
+    // Only count from the first day of each run
+    if (metDays.has(shiftDayKey(metDay, -1))) return;
+    let length = 0;
+    while (metDays.has(shiftDayKey(metDay, length))) {
+      length++;
+    }
+    longestStreak = Math.max(longestStreak, length);
+  });
+
+  return { streak, longestStreak };
+}
+
+/**
+ * Counts answers towards the goal of the study day they were given on
+ * @param reviewedAt When the answers were given
+ * @param reviewCount The number of answers to add, negative to take back undone ones
+ * @param newCardCount The number of cards answered for the first time to add
+ * @returns A promise that resolves when the operation is complete
+ */
+export async function recordStudy(reviewedAt: Date, reviewCount: number, newCardCount: number): Promise<void> {
+  try {
+    const settings = await getOrCreateSettings();
+    const day = getStudyDayKey(reviewedAt, settings.dayRolloverHour);
+
+    await db.transaction('rw', db.studyDays, async () => {
+      const studyDay = await db.studyDays.get(day);
+      await db.studyDays.put({
+        day,
+        reviewCount: Math.max(0, (studyDay?.reviewCount ?? 0) + reviewCount),
+        newCardCount: Math.max(0, (studyDay?.newCardCount ?? 0) + newCardCount),
+        goalType: settings.dailyGoalType,
+        goal: settings.dailyGoal,
+        updatedAt: new Date().toISOString()
+      });
+    });
+  } catch (error) {
+    console.error('Error recording study:', error);
+    throw new Error(`Failed to record study: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Counts a review towards the daily goal, or takes it back once undone.
+ * Relearning answers do not count, and the review itself stays saved if this fails.
+ * @param record The record returned when the review was made
+ * @param sign 1 for a review made or redone, -1 for an undone one
+ * @returns A promise that resolves when the operation is complete
+ */
+export async function recordReviewStudy(record: ReviewRecord, sign: 1 | -1 = 1): Promise<void> {
+  if (!isCountedReview(record.review)) return;
+  try {
+    await recordStudy(new Date(record.review.reviewedAt), sign, record.isNewCard ? sign : 0);
+  } catch (error) {
+    console.error('Error recording study for the daily goal:', error);
+  }
+}
+
+/**
+ * Retrieves what was studied during the current study day
+ * @param rolloverHour The hour at which a new study day starts
+ * @param now The current time
+ * @returns A promise that resolves with the numbers of reviews and new cards studied today
+ */
+export async function getTodayStudy(
+  rolloverHour: number,
+  now: Date = new Date()
+): Promise<Pick<StudyDay, 'reviewCount' | 'newCardCount'>> {
+  try {
+    const studyDay = await db.studyDays.get(getStudyDayKey(now, rolloverHour));
+    return {
+      reviewCount: studyDay?.reviewCount ?? 0,
+      newCardCount: studyDay?.newCardCount ?? 0
+    };
+  } catch (error) {
+    console.error('Error getting today\'s study:', error);
+    throw new Error(`Failed to get today's study: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Retrieves the progress towards today's goal and the streaks
+ * @param settings The goal settings
+ * @param now The current time
+ * @returns A promise that resolves with the progress
+ */
+export async function getGoalProgress(
+  settings: Pick<Settings, 'dailyGoalType' | 'dailyGoal' | 'dayRolloverHour'>,
+  now: Date = new Date()
+): Promise<GoalProgress> {
+  try {
+    const todayKey = getStudyDayKey(now, settings.dayRolloverHour);
+    const studyDays = await db.studyDays.toArray();
+    const storedToday = studyDays.find(studyDay => studyDay.day === todayKey);
+
+    // Today is judged with the current goal, even if it changed since the last review
+    const today: StudyDay = {
+      day: todayKey,
+      reviewCount: storedToday?.reviewCount ?? 0,
+      newCardCount: storedToday?.newCardCount ?? 0,
+      goalType: settings.dailyGoalType,
+      goal: settings.dailyGoal,
+      updatedAt: storedToday?.updatedAt ?? now.toISOString()
+    };
+    const { streak, longestStreak } = getStreaks(
+      [...studyDays.filter(studyDay => studyDay.day !== todayKey), today],
+      todayKey
+    );
+
+    return {
+      goalType: settings.dailyGoalType,
+      goal: settings.dailyGoal,
+      done: settings.dailyGoalType === 'newCards' ? today.newCardCount : today.reviewCount,
+      streak,
+      longestStreak,
+      isTodayMet: isGoalMet(today)
+    };
+  } catch (error) {
+    console.error('Error getting goal progress:', error);
+    throw new Error(`Failed to get goal progress: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
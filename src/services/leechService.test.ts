@@ -0,0 +1,99 @@
+import { IFlashCard, IReview, getNewCardDefaults } from './cardService';
+import { ReviewOutcome } from './schedulerService';
+import {
+  LEECH_TAG,
+  getConsecutiveFailureThreshold,
+  getLeechStats,
+  getLeechSuggestions,
+  isLeech,
+  meetsLeechThreshold
+} from './leechService';
+
+const card = (overrides: Partial<IFlashCard> = {}): IFlashCard => ({
+  id: 'card',
+  known: 'chat',
+  learning: 'cat',
+  knownLanguage: 'Français',
+  learningLanguage: 'Anglais',
+  ...getNewCardDefaults(),
+  contextLearning: ['The cat sleeps'],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+// Reviews one day apart, oldest first
+const history = (...outcomes: (ReviewOutcome | [ReviewOutcome, Partial<IReview>])[]): IReview[] =>
+  outcomes.map((entry, index) => {
+    const [outcome, overrides] = Array.isArray(entry) ? entry : [entry, {}];
+    return {
+      cardId: 'card',
+      outcome,
+      reviewedAt: new Date(Date.UTC(2024, 0, 2 + index)).toISOString(),
+      ...overrides
+    };
+  });
+
+describe('getConsecutiveFailureThreshold', () => {
+  it('asks for half the threshold in a row, at least 2', () => {
+    expect(getConsecutiveFailureThreshold(8)).toBe(4);
+    expect(getConsecutiveFailureThreshold(5)).toBe(3);
+    expect(getConsecutiveFailureThreshold(2)).toBe(2);
+  });
+});
+
+describe('getLeechStats', () => {
+  it('counts the wrong answers and half the revisits from the counters', () => {
+    const stats = getLeechStats(card({ wrongCount: 3, revisitCount: 3 }), history('wrong', 'correct', 'wrong', 'wrong'));
+    expect(stats).toEqual({ failures: 4.5, consecutiveFailures: 2 });
+  });
+
+  it('leaves the relearning answers out of the failures in a row', () => {
+    const stats = getLeechStats(card({ wrongCount: 2 }), history(
+      'wrong',
+      ['correct', { isRelearning: true }],
+      'wrong'
+    ));
+    expect(stats.consecutiveFailures).toBe(2);
+  });
+
+  it('only counts the reviews made since the card was dismissed as a leech', () => {
+    const reviews = history('wrong', 'wrong', 'wrong', 'revisit', 'wrong');
+    const dismissed = card({ wrongCount: 4, revisitCount: 1, leechDismissedAt: reviews[2].reviewedAt });
+    expect(getLeechStats(dismissed, reviews)).toEqual({ failures: 1.5, consecutiveFailures: 1 });
+  });
+});
+
+describe('meetsLeechThreshold', () => {
+  it('detects cards failed too often overall or too many times in a row', () => {
+    expect(meetsLeechThreshold({ failures: 8, consecutiveFailures: 0 }, 8)).toBe(true);
+    expect(meetsLeechThreshold({ failures: 4, consecutiveFailures: 4 }, 8)).toBe(true);
+    expect(meetsLeechThreshold({ failures: 7.5, consecutiveFailures: 3 }, 8)).toBe(false);
+  });
+});
+
+describe('isLeech', () => {
+  it('recognizes the cards with the leech tag', () => {
+    expect(isLeech(card({ tags: ['verbs', LEECH_TAG] }))).toBe(true);
+    expect(isLeech(card({ tags: ['verbs'] }))).toBe(false);
+    expect(isLeech(card())).toBe(false);
+  });
+});
+
+describe('getLeechSuggestions', () => {
+  it('suggests splitting cards with several meanings', () => {
+    expect(getLeechSuggestions(card({ learning: 'to lie, to lay' }))[0]).toMatch(/several meanings/);
+  });
+
+  it('suggests splitting long expressions', () => {
+    expect(getLeechSuggestions(card({ learning: 'to get the ball rolling again' }))[0]).toMatch(/long to recall/);
+  });
+
+  it('suggests an example sentence when the card has none', () => {
+    expect(getLeechSuggestions(card({ contextLearning: [] }))).toContain('Add an example sentence to give the word some context');
+  });
+
+  it('always suggests editing the card', () => {
+    expect(getLeechSuggestions(card())).toEqual(['Edit the card with a mnemonic or a clearer translation']);
+  });
+});
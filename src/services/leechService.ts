@@ -0,0 +1,179 @@
+// Leeches: cards that keep failing however often they are reviewed
+import { IFlashCard, IReview, getCards, getReviewsForCard, isCountedReview, updateCard } from './cardService';
+import { Settings } from './settingsService';
+
+// Tag added to the cards detected as leeches
+export const LEECH_TAG = 'leech';
+
+export type LeechOptions = Pick<Settings, 'leechThreshold' | 'suspendLeeches'>;
+
+export interface LeechStats {
+  failures: number;             // Wrong answers, plus half the times marked for revision
+  consecutiveFailures: number;  // Wrong answers since the last correct one
+}
+
+export interface Leech extends LeechStats {
+  card: IFlashCard;
+  suggestions: string[];        // Ways to make the card easier to remember
+}
+
+// Several meanings in one card, e.g. "to lie, to lay" or "louer / réserver"
+const MULTIPLE_MEANINGS_PATTERN = /[,;/]| or | ou /i;
+
+// Expressions longer than this are hard to recall as a whole
+const MAX_EXPRESSION_WORDS = 4;
+
+/**
+ * Checks whether a card was detected as a leech
+ * @param card The card to check
+ * @returns True if the card has the leech tag
+ */
+export function isLeech(card: IFlashCard): boolean {
+  return card.tags?.includes(LEECH_TAG) ?? false;
+}
+
+/**
+ * Returns the number of wrong answers since the last success that makes a card a leech
+ * @param threshold The number of failures that makes a card a leech
+ * @returns Half the threshold, at least 2
+ */
+export function getConsecutiveFailureThreshold(threshold: number): number {
+  return Math.max(2, Math.ceil(threshold / 2));
+}
+
+/**
+ * Counts the failures of a card. Once dismissed as a leech, only the later reviews count.
+ * @param card The card
+ * @param reviews The review history of the card, oldest first
+ * @returns The failure counts
+ */
+export function getLeechStats(card: IFlashCard, reviews: IReview[]): LeechStats {
+  // Only the first answer of a card in a session counts, not the relearning ones
+  const scheduledReviews = reviews.filter(isCountedReview);
+  const countedReviews = card.leechDismissedAt
+    ? scheduledReviews.filter(review => review.reviewedAt > card.leechDismissedAt!)
+    : scheduledReviews;
+
+  // The counters also hold the answers given before reviews were logged
+  const wrongCount = card.leechDismissedAt
+    ? countedReviews.filter(review => review.outcome === 'wrong').length
+    : card.wrongCount;
+  const revisitCount = card.leechDismissedAt
+    ? countedReviews.filter(review => review.outcome === 'revisit').length
+    : card.revisitCount || 0;
+
+  const lastSuccessIndex = countedReviews.map(review => review.outcome).lastIndexOf('correct');
+  const consecutiveFailures = countedReviews
+    .slice(lastSuccessIndex + 1)
+    .filter(review => review.outcome === 'wrong').length;
+
+  return {
+    failures: wrongCount + revisitCount / 2,
+    consecutiveFailures
+  };
+}
+
+/**
+ * Checks whether failure counts make a card a leech
+ * @param stats The failure counts of the card
+ * @param threshold The number of failures that makes a card a leech
+ * @returns True if the card has failed too often overall or too many times since its last success
+ */
+export function meetsLeechThreshold(stats: LeechStats, threshold: number): boolean {
+  return stats.failures >= threshold || stats.consecutiveFailures >= getConsecutiveFailureThreshold(threshold);
+}
+
+/**
+ * Suggests ways to make a leech easier to remember
+ * @param card The leech
+ * @returns The suggestions, the most specific first
+ */
+export function getLeechSuggestions(card: IFlashCard): string[] {
+  const suggestions: string[] = [];
+
+  if (MULTIPLE_MEANINGS_PATTERN.test(card.learning) || MULTIPLE_MEANINGS_PATTERN.test(card.known)) {
+    suggestions.push('Split the card: it holds several meanings');
+  } else if (card.learning.trim().split(/\s+/).length > MAX_EXPRESSION_WORDS) {
+    suggestions.push('Split the card: the expression is long to recall at once');
+  }
+  if (!card.contextLearning?.length) {
+    suggestions.push('Add an example sentence to give the word some context');
+  }
+  suggestions.push('Edit the card with a mnemonic or a clearer translation');
+
+  return suggestions;
+}
+
+/**
+ * Looks for new leeches among the cards: tags them, and suspends them if asked to
+ * @param options The leech threshold and whether to suspend leeches
+ * @returns A promise that resolves with the cards newly detected as leeches
+ */
+export async function detectLeeches(options: LeechOptions): Promise<IFlashCard[]> {
+  try {
+    const consecutiveThreshold = getConsecutiveFailureThreshold(options.leechThreshold);
+    // Cards with too few failures in total cannot be leeches, whatever their history
+    const candidates = (await getCards()).filter(card =>
+      !isLeech(card) && card.wrongCount + (card.revisitCount || 0) / 2 >= Math.min(consecutiveThreshold, options.leechThreshold)
+    );
+
+    const leeches: IFlashCard[] = [];
+    for (const card of candidates) {
+      const stats = getLeechStats(card, await getReviewsForCard(card.id));
+      if (!meetsLeechThreshold(stats, options.leechThreshold)) continue;
+
+      const leech: IFlashCard = {
+        ...card,
+        tags: [...(card.tags ?? []), LEECH_TAG],
+        ...(options.suspendLeeches && { status: 'suspended', buriedUntil: undefined })
+      };
+      await updateCard(leech);
+      leeches.push(leech);
+    }
+
+    return leeches;
+  } catch (error) {
+    console.error('Error detecting leeches:', error);
+    throw new Error(`Failed to detect leeches: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Retrieves the cards detected as leeches with their failure counts
+ * @returns A promise that resolves with the leeches, the most failed first
+ */
+export async function getLeeches(): Promise<Leech[]> {
+  try {
+    const cards = (await getCards()).filter(isLeech);
+    const leeches = await Promise.all(cards.map(async card => ({
+      card,
+      ...getLeechStats(card, await getReviewsForCard(card.id)),
+      suggestions: getLeechSuggestions(card)
+    })));
+
+    return leeches.sort((a, b) => b.failures - a.failures);
+  } catch (error) {
+    console.error('Error getting leeches:', error);
+    throw new Error(`Failed to get leeches: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Stops treating a card as a leech: removes the tag, and only failures from now on will count
+ * @param card The leech
+ * @returns A promise that resolves with the updated card
+ */
+export async function dismissLeech(card: IFlashCard): Promise<IFlashCard> {
+  try {
+    const updatedCard: IFlashCard = {
+      ...card,
+      tags: card.tags?.filter(tag => tag !== LEECH_TAG),
+      leechDismissedAt: new Date().toISOString()
+    };
+    await updateCard(updatedCard);
+    return updatedCard;
+  } catch (error) {
+    console.error('Error dismissing leech:', error);
+    throw new Error(`Failed to dismiss leech: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
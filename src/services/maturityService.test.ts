@@ -0,0 +1,82 @@
+import { CardProgress, IFlashCard, getNewCardDefaults } from './cardService';
+import { getCardMaturityState, getMaturityState, MATURE_INTERVAL_DAYS } from './maturityService';
+
+const progress = (overrides: Partial<CardProgress>): CardProgress => ({
+  correctCount: 0,
+  wrongCount: 0,
+  revisitCount: 0,
+  dueAt: '2024-01-01T00:00:00.000Z',
+  interval: 0,
+  easeFactor: 2.5,
+  repetitions: 0,
+  lastReviewedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const card = (directions: Partial<IFlashCard['directions']>): IFlashCard => {
+  const defaults = getNewCardDefaults();
+  return {
+    id: 'card',
+    known: 'chat',
+    learning: 'cat',
+    knownLanguage: 'Français',
+    learningLanguage: 'Anglais',
+    ...defaults,
+    directions: { ...defaults.directions, ...directions },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  };
+};
+
+describe('getMaturityState', () => {
+  it('treats a card never answered as new', () => {
+    expect(getMaturityState(progress({}))).toBe('new');
+  });
+
+  it('keeps failed cards that were never recalled in learning', () => {
+    expect(getMaturityState(progress({ wrongCount: 3, interval: 1 }))).toBe('learning');
+  });
+
+  it('keeps cards recalled only once in a row in learning', () => {
+    expect(getMaturityState(progress({ correctCount: 1, repetitions: 1, interval: 1 }))).toBe('learning');
+  });
+
+  it('considers cards recalled a few times in a row young', () => {
+    expect(getMaturityState(progress({ correctCount: 2, repetitions: 2, interval: 6 }))).toBe('young');
+  });
+
+  it('considers cards reviewed weeks apart mature', () => {
+    expect(getMaturityState(progress({ correctCount: 5, repetitions: 5, interval: MATURE_INTERVAL_DAYS }))).toBe('mature');
+  });
+
+  it('marks cards failed after being recalled as relapsed', () => {
+    expect(getMaturityState(progress({ correctCount: 5, wrongCount: 1, repetitions: 0, interval: 1 }))).toBe('relapsed');
+  });
+
+  it('does not mark cards answered before the scheduler existed as relapsed', () => {
+    expect(getMaturityState(progress({ correctCount: 5, wrongCount: 1, lastReviewedAt: undefined }))).toBe('young');
+    expect(getMaturityState(progress({ correctCount: 1, wrongCount: 2, lastReviewedAt: undefined }))).toBe('learning');
+  });
+});
+
+describe('getCardMaturityState', () => {
+  it('treats a card studied in neither direction as new', () => {
+    expect(getCardMaturityState(card({}))).toBe('new');
+  });
+
+  it('ignores the direction that was never studied', () => {
+    const studied = card({
+      learningToKnown: progress({ correctCount: 5, repetitions: 5, interval: 30 })
+    });
+    expect(getCardMaturityState(studied)).toBe('mature');
+    expect(getCardMaturityState(studied, 'knownToLearning')).toBe('new');
+  });
+
+  it('sums up a card by its least advanced direction', () => {
+    const studied = card({
+      learningToKnown: progress({ correctCount: 5, repetitions: 5, interval: 30 }),
+      knownToLearning: progress({ correctCount: 2, repetitions: 2, interval: 6 })
+    });
+    expect(getCardMaturityState(studied)).toBe('young');
+  });
+});
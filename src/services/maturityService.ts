@@ -0,0 +1,74 @@
+// Maturity: how far along a card is in being learned, derived from its counters and scheduling
+import { CardProgress, IFlashCard, StudyDirection, getAnswerCount, getCardProgress } from './cardService';
+
+export type MaturityState = 'new' | 'learning' | 'young' | 'mature' | 'relapsed';
+
+export const MATURITY_STATES: MaturityState[] = ['new', 'learning', 'young', 'mature', 'relapsed'];
+
+export const MATURITY_LABELS: Record<MaturityState, string> = {
+  new: 'New',
+  learning: 'Learning',
+  young: 'Young',
+  mature: 'Mature',
+  relapsed: 'Relapsed'
+};
+
+// Studied states from the least to the most advanced, to sum up a card by its weakest direction
+const MATURITY_ORDER: MaturityState[] = ['relapsed', 'learning', 'young', 'mature'];
+
+// Successful reviews in a row after which a card leaves the learning state
+export const LEARNING_REPETITIONS = 2;
+
+// Review interval in days from which a card is mature
+export const MATURE_INTERVAL_DAYS = 21;
+
+/**
+ * Computes the maturity of a card, or of one of its directions
+ * @param progress The counters and scheduling of the card or direction
+ * @returns New if never answered, relapsed if just failed after having been recalled before,
+ * learning until recalled a few times in a row, then young, and mature once reviewed weeks apart.
+ * Cards never reviewed by the scheduler are learning or young depending on their answers, never relapsed.
+ */
+export function getMaturityState(progress: CardProgress): MaturityState {
+  if (getAnswerCount(progress) === 0) {
+    return 'new';
+  }
+
+  // Cards answered before the scheduler existed have counters but no repetitions: judge them by their answers
+  if (!progress.lastReviewedAt) {
+    return progress.correctCount >= LEARNING_REPETITIONS && progress.correctCount > progress.wrongCount
+      ? 'young'
+      : 'learning';
+  }
+
+  // Every scheduler starts the repetitions again after a failed recall
+  if (progress.repetitions === 0) {
+    return progress.correctCount > 0 ? 'relapsed' : 'learning';
+  }
+  if (progress.repetitions < LEARNING_REPETITIONS) {
+    return 'learning';
+  }
+
+  return progress.interval >= MATURE_INTERVAL_DAYS ? 'mature' : 'young';
+}
+
+/**
+ * Computes the maturity of a card
+ * @param card The card
+ * @param direction The direction to judge, all studied directions if omitted
+ * @returns The maturity of the direction, or of the least advanced direction studied, new if none was
+ */
+export function getCardMaturityState(card: IFlashCard, direction?: StudyDirection): MaturityState {
+  if (direction) {
+    return getMaturityState(getCardProgress(card, direction));
+  }
+
+  const directions: StudyDirection[] = ['learningToKnown', 'knownToLearning'];
+  const studiedStates = directions
+    .map(studyDirection => getMaturityState(getCardProgress(card, studyDirection)))
+    .filter(state => state !== 'new');
+
+  return studiedStates.length > 0
+    ? MATURITY_ORDER.find(state => studiedStates.includes(state))!
+    : 'new';
+}
@@ -0,0 +1,146 @@
+import {
+  SpeechVoice,
+  findVoice,
+  getLanguageCode,
+  isSpeechSupported,
+  setSpeechEngine,
+  speak
+} from './pronunciationService';
+import { getOrCreateSettings } from './settingsService';
+
+jest.mock('./settingsService', () => ({
+  getOrCreateSettings: jest.fn()
+}));
+
+const ENGLISH: SpeechVoice = { voiceURI: 'en-voice', name: 'English', lang: 'en-US' };
+const BRITISH: SpeechVoice = { voiceURI: 'gb-voice', name: 'British', lang: 'en_GB' };
+const FRENCH: SpeechVoice = { voiceURI: 'fr-voice', name: 'Français', lang: 'fr-FR' };
+
+const mockEngine = (voices: SpeechVoice[] = [ENGLISH, BRITISH, FRENCH]) => ({
+  getVoices: jest.fn(() => Promise.resolve(voices)),
+  speak: jest.fn((_text: string, _voice: SpeechVoice) => Promise.resolve()),
+  cancel: jest.fn()
+});
+
+beforeEach(() => {
+  (getOrCreateSettings as jest.Mock).mockResolvedValue({ voices: {} });
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('getLanguageCode', () => {
+  it('recognizes the language names of the cards and language tags', () => {
+    expect(getLanguageCode('Anglais')).toBe('en');
+    expect(getLanguageCode('Français')).toBe('fr');
+    expect(getLanguageCode('pt-BR')).toBe('pt-BR');
+    expect(getLanguageCode('Klingon')).toBeNull();
+  });
+});
+
+describe('findVoice', () => {
+  it('prefers the voice chosen in the settings', () => {
+    expect(findVoice([ENGLISH, BRITISH], 'Anglais', 'gb-voice')).toBe(BRITISH);
+  });
+
+  it('falls back to the first voice of the language', () => {
+    expect(findVoice([FRENCH, ENGLISH], 'Anglais', 'missing-voice')).toBe(ENGLISH);
+    expect(findVoice([FRENCH], 'Anglais')).toBeNull();
+  });
+});
+
+describe('speak', () => {
+  it('stops the previous text and speaks with the voice of the language', async () => {
+    const engine = mockEngine();
+    setSpeechEngine(engine);
+
+    await expect(speak('cat', 'Anglais')).resolves.toBe(true);
+    expect(engine.cancel).toHaveBeenCalledTimes(1);
+    expect(engine.speak).toHaveBeenCalledWith('cat', ENGLISH);
+  });
+
+  it('uses the voice chosen in the settings', async () => {
+    const engine = mockEngine();
+    setSpeechEngine(engine);
+    (getOrCreateSettings as jest.Mock).mockResolvedValue({ voices: { Anglais: 'gb-voice' } });
+
+    await speak('cat', 'Anglais');
+    expect(engine.speak).toHaveBeenCalledWith('cat', BRITISH);
+  });
+
+  it('speaks nothing without a voice for the language', async () => {
+    const engine = mockEngine([FRENCH]);
+    setSpeechEngine(engine);
+
+    await expect(speak('cat', 'Anglais')).resolves.toBe(false);
+    expect(engine.speak).not.toHaveBeenCalled();
+  });
+
+  it('reports speech errors without throwing', async () => {
+    const engine = mockEngine();
+    engine.speak.mockRejectedValue(new Error('synthesis-failed'));
+    setSpeechEngine(engine);
+
+    await expect(speak('cat', 'Anglais')).resolves.toBe(false);
+  });
+
+  it('does nothing when the browser cannot speak', async () => {
+    setSpeechEngine(null);
+
+    expect(isSpeechSupported()).toBe(false);
+    await expect(speak('cat', 'Anglais')).resolves.toBe(false);
+  });
+});
+
+describe('browser speech engine', () => {
+  // Minimal Web Speech API, failing every utterance with the given error
+  const loadWithBrowserSpeech = (utteranceError: string) => {
+    class MockUtterance {
+      text: string;
+      voice: unknown = null;
+      lang = '';
+      onend: (() => void) | null = null;
+      onerror: ((event: { error: string }) => void) | null = null;
+      constructor(text: string) {
+        this.text = text;
+      }
+    }
+    Object.assign(window, {
+      SpeechSynthesisUtterance: MockUtterance,
+      speechSynthesis: {
+        getVoices: () => [ENGLISH],
+        speak: (utterance: MockUtterance) => setTimeout(() => utterance.onerror?.({ error: utteranceError })),
+        cancel: jest.fn(),
+        addEventListener: jest.fn(),
+        removeEventListener: jest.fn()
+      }
+    });
+    (global as any).SpeechSynthesisUtterance = MockUtterance;
+
+    let service: typeof import('./pronunciationService') | undefined;
+    jest.isolateModules(() => {
+      service = require('./pronunciationService');
+    });
+    return service!;
+  };
+
+  afterEach(() => {
+    delete (window as any).speechSynthesis;
+    delete (window as any).SpeechSynthesisUtterance;
+    delete (global as any).SpeechSynthesisUtterance;
+  });
+
+  it('treats a text interrupted to speak another one as spoken', async () => {
+    const service = loadWithBrowserSpeech('interrupted');
+    expect(service.isSpeechSupported()).toBe(true);
+    await expect(service.speak('cat', 'Anglais')).resolves.toBe(true);
+  });
+
+  it('reports the other speech errors', async () => {
+    const service = loadWithBrowserSpeech('synthesis-failed');
+    await expect(service.speak('cat', 'Anglais')).resolves.toBe(false);
+  });
+});
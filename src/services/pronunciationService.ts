@@ -0,0 +1,208 @@
+// Pronunciation of words with the browser's speech synthesis (Web Speech API)
+import { getOrCreateSettings } from './settingsService';
+import { normalizeAnswer } from './answerGrading';
+
+// Voice offered by the speech engine
+export interface SpeechVoice {
+  voiceURI: string;
+  name: string;
+  lang: string;           // BCP 47 language tag (e.g., "en-US")
+}
+
+// Speech synthesis used by the service, replaceable in tests with setSpeechEngine
+export interface SpeechEngine {
+  getVoices(): Promise<SpeechVoice[]>;
+  speak(text: string, voice: SpeechVoice): Promise<void>;
+  cancel(): void;
+}
+
+// Language tags of the language names used on cards, in French and English
+const LANGUAGE_CODES: Record<string, string> = {
+  anglais: 'en',
+  english: 'en',
+  francais: 'fr',
+  french: 'fr',
+  espagnol: 'es',
+  spanish: 'es',
+  allemand: 'de',
+  german: 'de',
+  italien: 'it',
+  italian: 'it',
+  portugais: 'pt',
+  portuguese: 'pt',
+  neerlandais: 'nl',
+  dutch: 'nl',
+  russe: 'ru',
+  russian: 'ru',
+  japonais: 'ja',
+  japanese: 'ja',
+  chinois: 'zh',
+  chinese: 'zh',
+  coreen: 'ko',
+  korean: 'ko',
+  arabe: 'ar',
+  arabic: 'ar'
+};
+
+// Browsers load their voices asynchronously, give up waiting after this delay
+const VOICES_TIMEOUT_MS = 1500;
+
+function createBrowserSpeechEngine(): SpeechEngine | null {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window) || typeof SpeechSynthesisUtterance === 'undefined') {
+    return null;
+  }
+
+  const synthesis = window.speechSynthesis;
+
+  return {
+    getVoices() {
+      const voices = synthesis.getVoices();
+      if (voices.length > 0) {
+        return Promise.resolve(voices);
+      }
+
+      return new Promise(resolve => {
+        const handleVoicesChanged = () => {
+          clearTimeout(timeout);
+          synthesis.removeEventListener('voiceschanged', handleVoicesChanged);
+          resolve(synthesis.getVoices());
+        };
+        const timeout = setTimeout(handleVoicesChanged, VOICES_TIMEOUT_MS);
+        synthesis.addEventListener('voiceschanged', handleVoicesChanged);
+      });
+    },
+    speak(text, voice) {
+      return new Promise((resolve, reject) => {
+        const utterance = new SpeechSynthesisUtterance(text);
+        utterance.voice = synthesis.getVoices().find(v => v.voiceURI === voice.voiceURI) ?? null;
+        utterance.lang = voice.lang;
+        utterance.onend = () => resolve();
+        utterance.onerror = event => {
+          // Cancelling to speak another text is not a failure
+          if (event.error === 'interrupted' || event.error === 'canceled') {
+            resolve();
+          } else {
+            reject(new Error(event.error));
+          }
+        };
+        synthesis.speak(utterance);
+      });
+    },
+    cancel() {
+      synthesis.cancel();
+    }
+  };
+}
+
+let engine: SpeechEngine | null = createBrowserSpeechEngine();
+
+/**
+ * Replaces the speech engine, to mock the speech synthesis in tests
+ * @param speechEngine The engine to use, or null to simulate a browser without speech synthesis
+ */
+export function setSpeechEngine(speechEngine: SpeechEngine | null): void {
+  engine = speechEngine;
+}
+
+/**
+ * Checks whether the browser can speak at all
+ * @returns True if a speech engine is available
+ */
+export function isSpeechSupported(): boolean {
+  return engine !== null;
+}
+
+/**
+ * Stops the text being pronounced, if any
+ */
+export function stopSpeaking(): void {
+  engine?.cancel();
+}
+
+/**
+ * Returns the language tag matching a language name of the cards
+ * @param languageName The language name (e.g., "Anglais") or a language tag (e.g., "en-GB")
+ * @returns The language tag, or null if the language is unknown
+ */
+export function getLanguageCode(languageName: string): string | null {
+  const normalized = normalizeAnswer(languageName);
+  if (LANGUAGE_CODES[normalized]) {
+    return LANGUAGE_CODES[normalized];
+  }
+  return /^[a-z]{2,3}(-[a-z0-9]+)*$/i.test(languageName.trim()) ? languageName.trim() : null;
+}
+
+/**
+ * Retrieves the voices available in the browser
+ * @returns A promise that resolves with the voices, empty if speech is not supported
+ */
+export async function getVoices(): Promise<SpeechVoice[]> {
+  try {
+    return engine ? await engine.getVoices() : [];
+  } catch (error) {
+    console.error('Error getting voices:', error);
+    return [];
+  }
+}
+
+/**
+ * Lists the voices able to speak a language
+ * @param voices The available voices
+ * @param languageName The language name of the cards
+ * @returns The matching voices
+ */
+export function getVoicesForLanguage(voices: SpeechVoice[], languageName: string): SpeechVoice[] {
+  const code = getLanguageCode(languageName)?.toLowerCase();
+  if (!code) return [];
+
+  return voices.filter(voice => {
+    const lang = voice.lang.toLowerCase().replace('_', '-');
+    return lang === code || lang.startsWith(`${code}-`) || code.startsWith(`${lang}-`);
+  });
+}
+
+/**
+ * Picks the voice to speak a language with
+ * @param voices The available voices
+ * @param languageName The language name of the cards
+ * @param preferredVoiceURI The voice chosen in the settings for this language, if any
+ * @returns The voice, or null if none can speak the language
+ */
+export function findVoice(voices: SpeechVoice[], languageName: string, preferredVoiceURI?: string): SpeechVoice | null {
+  const preferredVoice = preferredVoiceURI && voices.find(voice => voice.voiceURI === preferredVoiceURI);
+  if (preferredVoice) {
+    return preferredVoice;
+  }
+
+  return getVoicesForLanguage(voices, languageName)[0] ?? null;
+}
+
+/**
+ * Pronounces a text with the voice chosen in the settings for its language.
+ * Never throws: a missing voice or a speech error only results in nothing being spoken.
+ * @param text The text to pronounce
+ * @param languageName The language name of the text
+ * @returns A promise that resolves with true once spoken, false if it could not be
+ */
+export async function speak(text: string, languageName: string): Promise<boolean> {
+  if (!engine || !text.trim()) {
+    return false;
+  }
+
+  try {
+    const [voices, settings] = await Promise.all([engine.getVoices(), getOrCreateSettings()]);
+    const voice = findVoice(voices, languageName, settings.voices[languageName]);
+    if (!voice) {
+      console.warn(`No voice available for ${languageName}`);
+      return false;
+    }
+
+    // Stop any word still being pronounced
+    engine.cancel();
+    await engine.speak(text, voice);
+    return true;
+  } catch (error) {
+    console.error('Error speaking text:', error);
+    return false;
+  }
+}
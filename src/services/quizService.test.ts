@@ -0,0 +1,62 @@
+import { IFlashCard, getNewCardDefaults } from './cardService';
+import { QUIZ_OPTION_COUNT, buildQuizOptions, pickDistractors, scoreDistractor } from './quizService';
+
+const card = (id: string, known: string, learning: string, overrides: Partial<IFlashCard> = {}): IFlashCard => ({
+  id,
+  known,
+  learning,
+  knownLanguage: 'Français',
+  learningLanguage: 'Anglais',
+  ...getNewCardDefaults(),
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const cat = card('cat', 'chat', 'cat', { tags: ['animals'] });
+
+describe('scoreDistractor', () => {
+  it('prefers candidates sharing tags with the card', () => {
+    const tagged = card('dog', 'chien', 'dog', { tags: ['animals'] });
+    const untagged = card('dog-2', 'chien', 'dog');
+    expect(scoreDistractor(cat, tagged, true)).toBeGreaterThan(scoreDistractor(cat, untagged, true));
+  });
+
+  it('prefers answers spelled like the right one', () => {
+    expect(scoreDistractor(cat, card('car', 'voiture', 'car'), true))
+      .toBeGreaterThan(scoreDistractor(cat, card('bus', 'autobus', 'bus'), true));
+  });
+
+  it('compares the side given as the answer', () => {
+    const chat = card('chart', 'chart', 'diagram');
+    expect(scoreDistractor(cat, chat, false)).toBeGreaterThan(scoreDistractor(cat, chat, true));
+  });
+});
+
+describe('pickDistractors', () => {
+  const candidates = [
+    cat,
+    card('car', 'voiture', 'car'),
+    card('hat', 'chapeau', 'hat'),
+    card('bat', 'chauve-souris', 'bat'),
+    card('cat-again', 'matou', 'Cat'),
+    card('cap', 'casquette', 'cap', { learningLanguage: 'Espagnol' })
+  ];
+
+  it('picks other cards of the same language pair, never the same answer twice', () => {
+    const distractors = pickDistractors(cat, candidates, true);
+    expect(distractors).toHaveLength(QUIZ_OPTION_COUNT - 1);
+    expect(distractors.map(distractor => distractor.id).sort()).toEqual(['bat', 'car', 'hat']);
+  });
+
+  it('returns fewer options when there are not enough candidates', () => {
+    expect(pickDistractors(cat, [cat, card('car', 'voiture', 'car')], true)).toHaveLength(1);
+  });
+});
+
+describe('buildQuizOptions', () => {
+  it('offers the card among its distractors', () => {
+    const options = buildQuizOptions(cat, [cat, card('car', 'voiture', 'car'), card('hat', 'chapeau', 'hat')], true);
+    expect(options.map(option => option.id).sort()).toEqual(['car', 'cat', 'hat']);
+  });
+});
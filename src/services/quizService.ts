@@ -0,0 +1,73 @@
+// Multiple-choice quiz: picks plausible wrong options (distractors) for a card
+import { IFlashCard } from './cardService';
+import { levenshteinDistance, normalizeAnswer } from './answerGrading';
+
+export const QUIZ_OPTION_COUNT = 4;
+
+/**
+ * Scores how easily a candidate could be mistaken for the card: shared tags,
+ * similar length and similar spelling of the answer all make it more plausible
+ * @param card The card being asked
+ * @param candidate The candidate distractor
+ * @param showKnownLanguage Whether the known side is the prompt, so the learning side is the answer
+ * @returns A score, higher meaning a better distractor
+ */
+export function scoreDistractor(card: IFlashCard, candidate: IFlashCard, showKnownLanguage: boolean): number {
+  const answer = normalizeAnswer(showKnownLanguage ? card.learning : card.known);
+  const candidateAnswer = normalizeAnswer(showKnownLanguage ? candidate.learning : candidate.known);
+  const longest = Math.max(answer.length, candidateAnswer.length, 1);
+
+  const sharedTags = (candidate.tags ?? []).filter(tag => card.tags?.includes(tag)).length;
+  const lengthSimilarity = 1 - Math.abs(answer.length - candidateAnswer.length) / longest;
+  const spellingSimilarity = 1 - levenshteinDistance(answer, candidateAnswer) / longest;
+
+  return sharedTags + lengthSimilarity + 2 * spellingSimilarity;
+}
+
+/**
+ * Picks the distractors of a card among the cards of the same language pair
+ * @param card The card being asked
+ * @param candidates The cards to pick from
+ * @param showKnownLanguage Whether the known side is the prompt
+ * @param count The number of distractors to pick
+ * @returns The distractors, best first
+ */
+export function pickDistractors(
+  card: IFlashCard,
+  candidates: IFlashCard[],
+  showKnownLanguage: boolean,
+  count: number = QUIZ_OPTION_COUNT - 1
+): IFlashCard[] {
+  const getAnswer = (c: IFlashCard) => normalizeAnswer(showKnownLanguage ? c.learning : c.known);
+  const answer = getAnswer(card);
+  const seenAnswers = new Set([answer]);
+
+  return candidates
+    .filter(candidate =>
+      candidate.id !== card.id
+      && candidate.knownLanguage === card.knownLanguage
+      && candidate.learningLanguage === card.learningLanguage)
+    // A little randomness so the same card does not always get the same options
+    .map(candidate => ({ candidate, score: scoreDistractor(card, candidate, showKnownLanguage) + Math.random() * 0.5 }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ candidate }) => candidate)
+    // Never offer two options with the same answer
+    .filter(candidate => {
+      const candidateAnswer = getAnswer(candidate);
+      if (!candidateAnswer || seenAnswers.has(candidateAnswer)) return false;
+      seenAnswers.add(candidateAnswer);
+      return true;
+    })
+    .slice(0, count);
+}
+
+/**
+ * Builds the shuffled options of a quiz question
+ * @param card The card being asked
+ * @param candidates The cards to pick the distractors from
+ * @param showKnownLanguage Whether the known side is the prompt
+ * @returns The card and its distractors, in random order
+ */
+export function buildQuizOptions(card: IFlashCard, candidates: IFlashCard[], showKnownLanguage: boolean): IFlashCard[] {
+  return [card, ...pickDistractors(card, candidates, showKnownLanguage)].sort(() => Math.random() - 0.5);
+}
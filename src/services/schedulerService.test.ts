@@ -0,0 +1,156 @@
+import {
+  fsrsScheduler,
+  getEndOfDay,
+  getInitialSchedulingState,
+  isDueToday,
+  leitnerScheduler,
+  replayReviews,
+  REVIEW_GRADES,
+  ReviewGrade,
+  SchedulingState,
+  sm2Scheduler
+} from './schedulerService';
+
+const CREATED_AT = new Date('2024-01-01T12:00:00.000Z');
+const NOW = new Date('2024-01-10T12:00:00.000Z');
+
+const daysBetween = (from: Date, to: string) => Math.round((new Date(to).getTime() - from.getTime()) / 86400000);
+
+const state = (overrides: Partial<SchedulingState>): SchedulingState => ({
+  ...getInitialSchedulingState(CREATED_AT),
+  ...overrides
+});
+
+describe('sm2Scheduler', () => {
+  it.each<[ReviewGrade, number, number]>([
+    ['again', 0, 2.5],
+    ['hard', 1, 2.36],
+    ['good', 1, 2.5],
+    ['easy', 1, 2.6]
+  ])('schedules a new card answered %s the next day', (grade, repetitions, easeFactor) => {
+    const next = sm2Scheduler.next(state({}), grade, NOW);
+    expect(next.interval).toBe(1);
+    expect(next.repetitions).toBe(repetitions);
+    expect(next.easeFactor).toBeCloseTo(easeFactor);
+    expect(daysBetween(NOW, next.dueAt)).toBe(1);
+    expect(next.lastReviewedAt).toBe(NOW.toISOString());
+  });
+
+  it('waits six days after the second successful recall', () => {
+    expect(sm2Scheduler.next(state({ repetitions: 1, interval: 1 }), 'good', NOW).interval).toBe(6);
+  });
+
+  it('multiplies the interval by the ease factor afterwards', () => {
+    const next = sm2Scheduler.next(state({ repetitions: 2, interval: 6 }), 'good', NOW);
+    expect(next.interval).toBe(15);
+    expect(next.repetitions).toBe(3);
+  });
+
+  it('starts the repetitions again after a failure, keeping the ease factor', () => {
+    const next = sm2Scheduler.next(state({ repetitions: 4, interval: 30, easeFactor: 2.2 }), 'again', NOW);
+    expect(next).toMatchObject({ repetitions: 0, interval: 1, easeFactor: 2.2 });
+  });
+
+  it('never lowers the ease factor below 1.3', () => {
+    expect(sm2Scheduler.next(state({ repetitions: 3, interval: 10, easeFactor: 1.3 }), 'hard', NOW).easeFactor).toBe(1.3);
+  });
+});
+
+describe('leitnerScheduler', () => {
+  it.each<[ReviewGrade, number, number]>([
+    ['again', 1, 1],
+    ['hard', 1, 1],
+    ['good', 2, 3],
+    ['easy', 3, 7]
+  ])('moves a new card answered %s to box %i', (grade, leitnerBox, interval) => {
+    const next = leitnerScheduler.next(state({}), grade, NOW);
+    expect(next.leitnerBox).toBe(leitnerBox);
+    expect(next.interval).toBe(interval);
+    expect(daysBetween(NOW, next.dueAt)).toBe(interval);
+  });
+
+  it('sends a failed card back to the first box', () => {
+    const next = leitnerScheduler.next(state({ leitnerBox: 4, interval: 14, repetitions: 3 }), 'again', NOW);
+    expect(next).toMatchObject({ leitnerBox: 1, interval: 1, repetitions: 0 });
+  });
+
+  it('keeps cards in the last box', () => {
+    expect(leitnerScheduler.next(state({ leitnerBox: 5, interval: 30 }), 'easy', NOW).leitnerBox).toBe(5);
+  });
+
+  it('starts cards scheduled by another algorithm in the box of their interval', () => {
+    expect(leitnerScheduler.next(state({ interval: 8, repetitions: 3 }), 'hard', NOW).leitnerBox).toBe(3);
+  });
+});
+
+describe('fsrsScheduler', () => {
+  it.each<[ReviewGrade, number]>([
+    ['again', 1],
+    ['hard', 1],
+    ['good', 4],
+    ['easy', 14]
+  ])('schedules a new card answered %s from its initial stability', (grade, interval) => {
+    const next = fsrsScheduler.next(state({}), grade, NOW);
+    expect(next.interval).toBe(interval);
+    expect(next.difficulty).toBeGreaterThanOrEqual(1);
+    expect(next.difficulty).toBeLessThanOrEqual(10);
+    expect(next.repetitions).toBe(grade === 'again' ? 0 : 1);
+  });
+
+  it('orders the intervals of a reviewed card by grade', () => {
+    const reviewed = fsrsScheduler.next(state({}), 'good', CREATED_AT);
+    const intervals = REVIEW_GRADES.map(grade => fsrsScheduler.next(reviewed, grade, NOW).interval);
+    expect(intervals).toEqual([...intervals].sort((a, b) => a - b));
+    expect(intervals[3]).toBeGreaterThan(intervals[0]);
+  });
+
+  it('lowers the stability and raises the difficulty after a failure', () => {
+    const reviewed = fsrsScheduler.next(state({}), 'good', CREATED_AT);
+    const failed = fsrsScheduler.next(reviewed, 'again', NOW);
+    expect(failed.stability).toBeLessThan(reviewed.stability!);
+    expect(failed.difficulty).toBeGreaterThan(reviewed.difficulty!);
+  });
+});
+
+describe('replayReviews', () => {
+  it('starts from the creation date without reviews', () => {
+    expect(replayReviews([], sm2Scheduler, CREATED_AT.toISOString())).toEqual(getInitialSchedulingState(CREATED_AT));
+  });
+
+  it('applies the reviews in order', () => {
+    const reviews = [
+      { outcome: 'correct' as const, grade: 'good' as const, reviewedAt: '2024-01-02T12:00:00.000Z' },
+      { outcome: 'correct' as const, grade: 'easy' as const, reviewedAt: '2024-01-03T12:00:00.000Z' }
+    ];
+    const expected = sm2Scheduler.next(
+      sm2Scheduler.next(state({}), 'good', new Date(reviews[0].reviewedAt)),
+      'easy',
+      new Date(reviews[1].reviewedAt)
+    );
+    expect(replayReviews(reviews, sm2Scheduler, CREATED_AT.toISOString())).toEqual(expected);
+  });
+
+  it('grades reviews recorded without a grade from their outcome', () => {
+    const replayed = replayReviews(
+      [{ outcome: 'wrong', reviewedAt: NOW.toISOString() }],
+      leitnerScheduler,
+      CREATED_AT.toISOString()
+    );
+    expect(replayed).toMatchObject({ leitnerBox: 1, repetitions: 0 });
+  });
+});
+
+describe('getEndOfDay', () => {
+  it('ends the day at midnight without a rollover hour', () => {
+    expect(getEndOfDay(new Date(2024, 0, 10, 2), 0)).toEqual(new Date(2024, 0, 10, 23, 59, 59, 999));
+  });
+
+  it('ends the study day just before the next rollover', () => {
+    expect(getEndOfDay(new Date(2024, 0, 10, 10), 4)).toEqual(new Date(2024, 0, 11, 3, 59, 59, 999));
+  });
+
+  it('keeps the night before the rollover in the day before', () => {
+    expect(getEndOfDay(new Date(2024, 0, 10, 2), 4)).toEqual(new Date(2024, 0, 10, 3, 59, 59, 999));
+    expect(isDueToday({ dueAt: new Date(2024, 0, 10, 12).toISOString() }, new Date(2024, 0, 10, 2), 4)).toBe(false);
+  });
+});
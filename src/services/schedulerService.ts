@@ -0,0 +1,351 @@
+// Spaced-repetition scheduling
+// Each algorithm implements the Scheduler interface and is selectable in the settings:
+// - SM-2: https://super-memory.com/english/ol/sm2.htm
+// - Leitner boxes: https://en.wikipedia.org/wiki/Leitner_system
+// - FSRS (v4.5): https://github.com/open-spaced-repetition/fsrs4anki/wiki/The-Algorithm
+
+// Scheduling data stored on every card
+export interface SchedulingState {
+  dueAt: string;        // ISO timestamp of the next review
+  interval: number;     // Current interval in days
+  easeFactor: number;   // SM-2 easiness factor (>= 1.3)
+  repetitions: number;  // Number of consecutive successful reviews
+  leitnerBox?: number;  // Leitner box (1-5)
+  stability?: number;   // FSRS memory stability in days
+  difficulty?: number;  // FSRS difficulty (1-10)
+  lastReviewedAt?: string; // ISO timestamp of the last review
+}
+
+// Outcome of a single review, counted in the statistics of the card
+export type ReviewOutcome = 'correct' | 'wrong' | 'revisit';
+
+// How well the answer was known, used by the schedulers
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// Grades from the worst to the best, with their labels
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy'
+};
+
+// Review outcome with the date it happened, used to replay a card's history
+export interface ScheduledReview {
+  outcome: ReviewOutcome;
+  grade?: ReviewGrade;  // Missing on reviews recorded before grades existed
+  reviewedAt: string;
+}
+
+export type SchedulerAlgorithm = 'sm2' | 'leitner' | 'fsrs';
+
+export interface Scheduler {
+  algorithm: SchedulerAlgorithm;
+  label: string;
+  description: string;
+  /**
+   * Computes the next scheduling state of a card after a review
+   * @param state The current scheduling state of the card
+   * @param grade The grade of the review
+   * @param now The date of the review
+   * @returns The next scheduling state
+   */
+  next(state: SchedulingState, grade: ReviewGrade, now: Date): SchedulingState;
+}
+
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Grade given to answers recorded with an outcome only, and the other way round
+const OUTCOME_GRADES: Record<ReviewOutcome, ReviewGrade> = {
+  correct: 'good',
+  revisit: 'hard',
+  wrong: 'again'
+};
+
+const GRADE_OUTCOMES: Record<ReviewGrade, ReviewOutcome> = {
+  again: 'wrong',
+  hard: 'correct',
+  good: 'correct',
+  easy: 'correct'
+};
+
+// SM-2 quality of response (0-5) for each grade
+const SM2_QUALITY: Record<ReviewGrade, number> = {
+  again: 0,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+// Review interval in days for each Leitner box
+const LEITNER_INTERVALS = [1, 3, 7, 14, 30];
+
+// FSRS rating for each grade
+const FSRS_RATING: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4
+};
+
+// Default FSRS v4.5 parameters
+const FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755
+];
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+const FSRS_REQUEST_RETENTION = 0.9;
+
+/**
+ * Adds a number of days to a date
+ * @param date The start date
+ * @param days The number of days to add
+ * @returns A new date
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_IN_MS);
+}
+
+/**
+ * Returns the grade matching a review outcome, for answers given without a grade
+ * @param outcome The outcome of the review
+ * @returns The grade
+ */
+export function getOutcomeGrade(outcome: ReviewOutcome): ReviewGrade {
+  return OUTCOME_GRADES[outcome];
+}
+
+/**
+ * Returns the outcome counted in the statistics for a grade
+ * @param grade The grade of the review
+ * @returns The outcome: again is wrong, the other grades are successful recalls and correct
+ */
+export function getGradeOutcome(grade: ReviewGrade): ReviewOutcome {
+  return GRADE_OUTCOMES[grade];
+}
+
+/**
+ * Returns the scheduling state of a card that has never been reviewed
+ * @param now The current date
+ * @returns A scheduling state due immediately
+ */
+export function getInitialSchedulingState(now: Date = new Date()): SchedulingState {
+  return {
+    dueAt: now.toISOString(),
+    interval: 0,
+    easeFactor: DEFAULT_EASE_FACTOR,
+    repetitions: 0
+  };
+}
+
+export const sm2Scheduler: Scheduler = {
+  algorithm: 'sm2',
+  label: 'SM-2',
+  description: 'Classic SuperMemo algorithm: intervals grow with a per-card ease factor',
+  next(state, grade, now) {
+    const quality = SM2_QUALITY[grade];
+
+    // Failed recall: start the repetitions again without touching the ease factor
+    if (quality < 3) {
+      return {
+        ...state,
+        repetitions: 0,
+        interval: 1,
+        dueAt: addDays(now, 1).toISOString(),
+        lastReviewedAt: now.toISOString()
+      };
+    }
+
+    const easeFactor = Math.max(
+      MIN_EASE_FACTOR,
+      state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    let interval: number;
+    if (state.repetitions === 0) {
+      interval = 1;
+    } else if (state.repetitions === 1) {
+      interval = 6;
+    } else {
+      interval = Math.round(state.interval * easeFactor);
+    }
+
+    return {
+      ...state,
+      dueAt: addDays(now, interval).toISOString(),
+      interval,
+      easeFactor,
+      repetitions: state.repetitions + 1,
+      lastReviewedAt: now.toISOString()
+    };
+  }
+};
+
+export const leitnerScheduler: Scheduler = {
+  algorithm: 'leitner',
+  label: 'Leitner boxes',
+  description: 'Cards move up one box when correct (two when easy), stay when hard and go back to the first box when wrong',
+  next(state, grade, now) {
+    // Cards scheduled by another algorithm start in the box matching their interval
+    const currentBox = state.leitnerBox ?? Math.max(1, LEITNER_INTERVALS.filter(days => days <= state.interval).length);
+
+    let leitnerBox = currentBox;
+    if (grade === 'good' || grade === 'easy') {
+      leitnerBox = Math.min(currentBox + (grade === 'easy' ? 2 : 1), LEITNER_INTERVALS.length);
+    } else if (grade === 'again') {
+      leitnerBox = 1;
+    }
+
+    const interval = LEITNER_INTERVALS[leitnerBox - 1];
+    return {
+      ...state,
+      leitnerBox,
+      interval,
+      repetitions: grade === 'again' ? 0 : state.repetitions + 1,
+      dueAt: addDays(now, interval).toISOString(),
+      lastReviewedAt: now.toISOString()
+    };
+  }
+};
+
+const clampDifficulty = (difficulty: number) => Math.min(10, Math.max(1, difficulty));
+
+const fsrsInitialDifficulty = (rating: number) =>
+  clampDifficulty(FSRS_WEIGHTS[4] - (rating - 3) * FSRS_WEIGHTS[5]);
+
+export const fsrsScheduler: Scheduler = {
+  algorithm: 'fsrs',
+  label: 'FSRS',
+  description: 'Modern algorithm modelling memory stability and difficulty to target 90% retention',
+  next(state, grade, now) {
+    const rating = FSRS_RATING[grade];
+    const w = FSRS_WEIGHTS;
+
+    // Cards scheduled by another algorithm use their current interval as stability
+    const previousStability = state.stability ?? (state.repetitions > 0 ? Math.max(state.interval, 1) : undefined);
+
+    let stability: number;
+    let difficulty: number;
+    if (previousStability === undefined) {
+      stability = w[rating - 1];
+      difficulty = fsrsInitialDifficulty(rating);
+    } else {
+      const previousDifficulty = state.difficulty ?? 5;
+      const lastReviewedAt = state.lastReviewedAt ? new Date(state.lastReviewedAt).getTime() : now.getTime();
+      const elapsedDays = Math.max(0, (now.getTime() - lastReviewedAt) / DAY_IN_MS);
+      const retrievability = Math.pow(1 + FSRS_FACTOR * elapsedDays / previousStability, FSRS_DECAY);
+
+      // Difficulty moves with the rating and reverts towards the default
+      difficulty = clampDifficulty(
+        w[7] * fsrsInitialDifficulty(3) + (1 - w[7]) * (previousDifficulty - w[6] * (rating - 3))
+      );
+
+      if (rating === 1) {
+        stability = Math.min(previousStability, w[11]
+          * Math.pow(previousDifficulty, -w[12])
+          * (Math.pow(previousStability + 1, w[13]) - 1)
+          * Math.exp(w[14] * (1 - retrievability)));
+      } else {
+        const hardPenalty = rating === 2 ? w[15] : 1;
+        const easyBonus = rating === 4 ? w[16] : 1;
+        stability = previousStability * (1 + Math.exp(w[8])
+          * (11 - previousDifficulty)
+          * Math.pow(previousStability, -w[9])
+          * (Math.exp(w[10] * (1 - retrievability)) - 1)
+          * hardPenalty
+          * easyBonus);
+      }
+    }
+
+    const interval = Math.max(1, Math.round(
+      stability / FSRS_FACTOR * (Math.pow(FSRS_REQUEST_RETENTION, 1 / FSRS_DECAY) - 1)
+    ));
+
+    return {
+      ...state,
+      stability,
+      difficulty,
+      interval,
+      repetitions: rating === 1 ? 0 : state.repetitions + 1,
+      dueAt: addDays(now, interval).toISOString(),
+      lastReviewedAt: now.toISOString()
+    };
+  }
+};
+
+export const SCHEDULERS: Record<SchedulerAlgorithm, Scheduler> = {
+  sm2: sm2Scheduler,
+  leitner: leitnerScheduler,
+  fsrs: fsrsScheduler
+};
+
+/**
+ * Returns the scheduler implementing the given algorithm
+ * @param algorithm The scheduling algorithm
+ * @returns The scheduler, SM-2 if the algorithm is unknown
+ */
+export function getScheduler(algorithm: SchedulerAlgorithm | undefined): Scheduler {
+  return (algorithm && SCHEDULERS[algorithm]) || sm2Scheduler;
+}
+
+/**
+ * Recomputes the scheduling state of a card by replaying its review history
+ * @param reviews The reviews of the card, in chronological order
+ * @param scheduler The scheduler to replay the reviews with
+ * @param createdAt The creation date of the card
+ * @returns The resulting scheduling state
+ */
+export function replayReviews(reviews: ScheduledReview[], scheduler: Scheduler, createdAt: string): SchedulingState {
+  return reviews.reduce(
+    (state, review) => scheduler.next(state, review.grade ?? getOutcomeGrade(review.outcome), new Date(review.reviewedAt)),
+    getInitialSchedulingState(new Date(createdAt))
+  );
+}
+
+/**
+ * Returns the end of the study day, used as the cutoff for "due today"
+ * @param now The current date
+ * @param rolloverHour The hour at which a new study day starts, so the night still belongs to the day before
+ * @returns The last millisecond before the next rollover
+ */
+export function getEndOfDay(now: Date = new Date(), rolloverHour: number = 0): Date {
+  const endOfDay = new Date(now);
+  // Back to the calendar day the study day started on, then forward to the next rollover
+  endOfDay.setHours(endOfDay.getHours() - rolloverHour);
+  endOfDay.setHours(23 + rolloverHour, 59, 59, 999);
+  return endOfDay;
+}
+
+/**
+ * Checks whether a card is due for review on the given study day
+ * @param state The scheduling state of the card
+ * @param now The current date
+ * @param rolloverHour The hour at which a new study day starts
+ * @returns True if the card is due before the end of the study day
+ */
+export function isDueToday(state: Pick<SchedulingState, 'dueAt'>, now: Date = new Date(), rolloverHour: number = 0): boolean {
+  return new Date(state.dueAt).getTime() <= getEndOfDay(now, rolloverHour).getTime();
+}
+
+/**
+ * Extracts the scheduling fields from a card-like object
+ * @param source An object containing scheduling fields
+ * @returns The scheduling state
+ */
+export function pickSchedulingState(source: SchedulingState): SchedulingState {
+  return {
+    dueAt: source.dueAt,
+    interval: source.interval,
+    easeFactor: source.easeFactor,
+    repetitions: source.repetitions,
+    leitnerBox: source.leitnerBox,
+    stability: source.stability,
+    difficulty: source.difficulty,
+    lastReviewedAt: source.lastReviewedAt
+  };
+}
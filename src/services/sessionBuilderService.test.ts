@@ -0,0 +1,102 @@
+import { CardProgress, IFlashCard, getNewCardDefaults } from './cardService';
+import { buildSessionQueue, getQueueCategory, SessionLimits } from './sessionBuilderService';
+
+const NOW = new Date(2024, 2, 10, 12);
+
+const progress = (overrides: Partial<CardProgress>): CardProgress => ({
+  correctCount: 0,
+  wrongCount: 0,
+  revisitCount: 0,
+  dueAt: new Date(2024, 2, 1).toISOString(),
+  interval: 0,
+  easeFactor: 2.5,
+  repetitions: 0,
+  ...overrides
+});
+
+// Card with progress in the learning to known direction
+const card = (id: string, learningToKnown: Partial<CardProgress> = {}, createdAt = '2024-01-01T00:00:00.000Z'): IFlashCard => {
+  const defaults = getNewCardDefaults();
+  return {
+    id,
+    known: id,
+    learning: id,
+    knownLanguage: 'Français',
+    learningLanguage: 'Anglais',
+    ...defaults,
+    directions: { ...defaults.directions, learningToKnown: progress(learningToKnown) },
+    createdAt,
+    updatedAt: createdAt
+  };
+};
+
+const dueCard = (id: string, dueAt: Date) =>
+  card(id, { correctCount: 3, repetitions: 3, interval: 10, dueAt: dueAt.toISOString(), lastReviewedAt: dueAt.toISOString() });
+const strugglingCard = (id: string, wrongCount: number) =>
+  card(id, { correctCount: 1, wrongCount, repetitions: 1, interval: 1, dueAt: new Date(2024, 2, 12).toISOString(), lastReviewedAt: NOW.toISOString() });
+const waitingCard = (id: string) =>
+  card(id, { correctCount: 5, repetitions: 5, interval: 30, dueAt: new Date(2024, 3, 1).toISOString(), lastReviewedAt: NOW.toISOString() });
+
+const LIMITS: SessionLimits = { newCardsPerDay: 20, reviewsPerDay: 200, maxSessionSize: 50, dayRolloverHour: 4 };
+const NOTHING_STUDIED = { reviewCount: 0, newCardCount: 0 };
+
+const ids = (cards: IFlashCard[]) => cards.map(c => c.id);
+
+describe('getQueueCategory', () => {
+  it('sorts the cards by why they would be studied', () => {
+    expect(getQueueCategory(card('new'), 'learningToKnown', NOW)).toBe('new');
+    expect(getQueueCategory(dueCard('due', new Date(2024, 2, 9)), 'learningToKnown', NOW)).toBe('overdue');
+    expect(getQueueCategory(strugglingCard('struggling', 2), 'learningToKnown', NOW)).toBe('struggling');
+    expect(getQueueCategory(waitingCard('waiting'), 'learningToKnown', NOW)).toBeNull();
+  });
+
+  it('reads the progress of the direction studied', () => {
+    expect(getQueueCategory(waitingCard('waiting'), 'knownToLearning', NOW)).toBe('new');
+  });
+
+  it('counts the cards due before the rollover as due today', () => {
+    const dueAtNight = dueCard('night', new Date(2024, 2, 11, 3));
+    expect(getQueueCategory(dueAtNight, 'learningToKnown', NOW, 0)).toBeNull();
+    expect(getQueueCategory(dueAtNight, 'learningToKnown', NOW, 4)).toBe('overdue');
+  });
+});
+
+describe('buildSessionQueue', () => {
+  const cards = [
+    card('new-late', {}, '2024-02-01T00:00:00.000Z'),
+    strugglingCard('struggling-less', 1),
+    dueCard('due-recent', new Date(2024, 2, 9)),
+    waitingCard('waiting'),
+    card('new-early', {}, '2024-01-15T00:00:00.000Z'),
+    strugglingCard('struggling-most', 4),
+    dueCard('due-oldest', new Date(2024, 2, 1))
+  ];
+
+  it('puts the overdue cards first, then the struggling and the new ones, leaving out the others', () => {
+    const queue = buildSessionQueue(cards, 'learningToKnown', LIMITS, NOTHING_STUDIED, NOW);
+    expect(ids(queue.cards)).toEqual([
+      'due-oldest', 'due-recent', 'struggling-most', 'struggling-less', 'new-early', 'new-late'
+    ]);
+    expect(queue.counts).toEqual({ overdue: 2, struggling: 2, new: 2 });
+    expect(queue.heldBack).toBe(0);
+  });
+
+  it('stops at the session size', () => {
+    const queue = buildSessionQueue(cards, 'learningToKnown', { ...LIMITS, maxSessionSize: 3 }, NOTHING_STUDIED, NOW);
+    expect(ids(queue.cards)).toEqual(['due-oldest', 'due-recent', 'struggling-most']);
+    expect(queue.heldBack).toBe(3);
+  });
+
+  it('keeps within what is left of the daily limits', () => {
+    const queue = buildSessionQueue(
+      cards,
+      'learningToKnown',
+      { ...LIMITS, reviewsPerDay: 10, newCardsPerDay: 5 },
+      { reviewCount: 11, newCardCount: 4 },
+      NOW
+    );
+    // 7 reviews and 4 new cards were done: 3 reviews and 1 new card are left
+    expect(ids(queue.cards)).toEqual(['due-oldest', 'due-recent', 'struggling-most', 'new-early']);
+    expect(queue.heldBack).toBe(2);
+  });
+});
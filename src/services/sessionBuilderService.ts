@@ -0,0 +1,117 @@
+// Building the queue of a session from the filtered cards, within the daily limits
+import { IFlashCard, StudyDirection, getCardProgress } from './cardService';
+import { getMaturityState } from './maturityService';
+import { isDueToday } from './schedulerService';
+import { Settings } from './settingsService';
+import { StudyDay } from './goalService';
+
+// Why a card was picked, from the highest priority to the lowest
+export type QueueCategory = 'overdue' | 'struggling' | 'new';
+
+export const QUEUE_CATEGORIES: QueueCategory[] = ['overdue', 'struggling', 'new'];
+
+export const QUEUE_CATEGORY_LABELS: Record<QueueCategory, string> = {
+  overdue: 'Due',
+  struggling: 'Struggling',
+  new: 'New'
+};
+
+// Daily limits, counted from the hour the study day starts, and the session size
+export type SessionLimits = Pick<Settings, 'newCardsPerDay' | 'reviewsPerDay' | 'maxSessionSize' | 'dayRolloverHour'>;
+
+// Cards studied today, which count against the daily limits
+export type StudiedToday = Pick<StudyDay, 'reviewCount' | 'newCardCount'>;
+
+export interface SessionQueue {
+  cards: IFlashCard[];                      // Cards of the session, in the order they are shown
+  counts: Record<QueueCategory, number>;    // Number of picked cards of each category
+  heldBack: number;                         // Cards to study left out by the limits
+}
+
+/**
+ * Returns why a card would be studied in a direction
+ * @param card The card
+ * @param direction The direction studied
+ * @param now The current time
+ * @param rolloverHour The hour at which a new study day starts
+ * @returns Overdue when due today, new when never answered in the direction, struggling when still learning or relapsed,
+ * null when it can wait until it is due
+ */
+export function getQueueCategory(
+  card: IFlashCard,
+  direction: StudyDirection,
+  now: Date = new Date(),
+  rolloverHour: number = 0
+): QueueCategory | null {
+  const progress = getCardProgress(card, direction);
+  const maturity = getMaturityState(progress);
+
+  if (maturity === 'new') {
+    return 'new';
+  }
+  if (isDueToday(progress, now, rolloverHour)) {
+    return 'overdue';
+  }
+  return maturity === 'learning' || maturity === 'relapsed' ? 'struggling' : null;
+}
+
+/**
+ * Picks the cards of a session by priority: overdue first, then struggling, then new cards,
+ * without going over the daily limits nor the session size. Cards not due yet are left for later.
+ * @param cards The cards to pick from
+ * @param direction The direction studied
+ * @param limits The daily limits, the hour the study day starts and the session size
+ * @param studiedToday The reviews and new cards already studied today
+ * @param now The current time
+ * @returns The queue of the session and how it is made up
+ */
+export function buildSessionQueue(
+  cards: IFlashCard[],
+  direction: StudyDirection,
+  limits: SessionLimits,
+  studiedToday: StudiedToday,
+  now: Date = new Date()
+): SessionQueue {
+  const byCategory: Record<QueueCategory, IFlashCard[]> = { overdue: [], struggling: [], new: [] };
+  cards.forEach(card => {
+    const category = getQueueCategory(card, direction, now, limits.dayRolloverHour);
+    if (category) byCategory[category].push(card);
+  });
+
+  const progressOf = (card: IFlashCard) => getCardProgress(card, direction);
+  // The longest overdue first
+  byCategory.overdue.sort((a, b) => progressOf(a).dueAt.localeCompare(progressOf(b).dueAt));
+  // The most often failed first
+  const failureRatio = (card: IFlashCard) => {
+    const progress = progressOf(card);
+    return (progress.wrongCount + (progress.revisitCount || 0)) / (progress.correctCount + 1);
+  };
+  byCategory.struggling.sort((a, b) => failureRatio(b) - failureRatio(a));
+  // The oldest added first
+  byCategory.new.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  // Answers to new cards are counted in the reviews of the day too
+  let reviewsLeft = Math.max(0, limits.reviewsPerDay - (studiedToday.reviewCount - studiedToday.newCardCount));
+  let newCardsLeft = Math.max(0, limits.newCardsPerDay - studiedToday.newCardCount);
+
+  const queue: IFlashCard[] = [];
+  const counts: Record<QueueCategory, number> = { overdue: 0, struggling: 0, new: 0 };
+
+  QUEUE_CATEGORIES.forEach(category => {
+    byCategory[category].forEach(card => {
+      if (queue.length >= limits.maxSessionSize) return;
+      if (category === 'new') {
+        if (newCardsLeft === 0) return;
+        newCardsLeft--;
+      } else {
+        if (reviewsLeft === 0) return;
+        reviewsLeft--;
+      }
+      queue.push(card);
+      counts[category]++;
+    });
+  });
+
+  const cardsToStudy = QUEUE_CATEGORIES.reduce((sum, category) => sum + byCategory[category].length, 0);
+  return { cards: queue, counts, heldBack: cardsToStudy - queue.length };
+}
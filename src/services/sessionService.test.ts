@@ -0,0 +1,38 @@
+import { SWIPE_ACTIONS, SWIPE_ACTION_LABELS, getModeDirection, getRemainingCardCount } from './sessionService';
+
+describe('getRemainingCardCount', () => {
+  it('counts the cards on the stack and still in the queue', () => {
+    expect(getRemainingCardCount({
+      queueCardIds: ['a', 'b', 'c', 'd', 'e'],
+      stackCardIds: ['b', 'c'],
+      nextCardIndex: 3
+    })).toBe(4);
+  });
+
+  it('counts a card put back for relearning once', () => {
+    expect(getRemainingCardCount({
+      queueCardIds: ['a', 'b', 'c', 'a', 'b'],
+      stackCardIds: ['c'],
+      nextCardIndex: 3
+    })).toBe(3);
+  });
+});
+
+describe('getModeDirection', () => {
+  it('follows the selected language for the modes showing a card', () => {
+    expect(getModeDirection('flip', false)).toBe('learningToKnown');
+    expect(getModeDirection('typed', true)).toBe('knownToLearning');
+  });
+
+  it('always studies cloze sentences from the known language', () => {
+    expect(getModeDirection('cloze', false)).toBe('knownToLearning');
+    expect(getModeDirection('cloze', true)).toBe('knownToLearning');
+  });
+});
+
+describe('SWIPE_ACTIONS', () => {
+  it('offers every action a swipe can be set to, revisit included', () => {
+    expect([...SWIPE_ACTIONS].sort()).toEqual(Object.keys(SWIPE_ACTION_LABELS).sort());
+    expect(SWIPE_ACTIONS).toContain('revisit');
+  });
+});
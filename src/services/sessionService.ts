@@ -0,0 +1,146 @@
+import Dexie, { Table } from 'dexie';
+import { ReviewRecord, StudyDirection, SwipeDirection, getStudyDirection } from './cardService';
+import { ReviewOutcome, ReviewGrade } from './schedulerService';
+
+export const SWIPE_DIRECTIONS: SwipeDirection[] = ['left', 'right', 'up', 'down'];
+
+// Card taken out of the stack without an answer: skipped for this session, suspended or buried until tomorrow
+export type CardAction = 'suspend' | 'bury' | 'skip';
+
+// What a swipe does to a card: a grade, a recalled card to see again at the end of the session, or an action without review
+export type SwipeAction = ReviewGrade | 'revisit' | CardAction;
+
+// Actions a swipe can be set to, the answers first
+export const SWIPE_ACTIONS: SwipeAction[] = ['again', 'hard', 'revisit', 'good', 'easy', 'suspend', 'bury', 'skip'];
+
+export const SWIPE_ACTION_LABELS: Record<SwipeAction, string> = {
+  again: 'Again (wrong)',
+  hard: 'Hard (correct, with effort)',
+  revisit: 'Revisit (see again)',
+  good: 'Good (correct)',
+  easy: 'Easy',
+  suspend: 'Suspend',
+  bury: 'Bury until tomorrow',
+  skip: 'Skip'
+};
+
+// Way the cards are answered during a session
+export type StudyMode = 'flip' | 'typed' | 'quiz' | 'cloze' | 'audio';
+
+export const STUDY_MODE_LABELS: Record<StudyMode, string> = {
+  flip: 'Flip',
+  typed: 'Type',
+  quiz: 'Quiz',
+  cloze: 'Cloze',
+  audio: 'Audio'
+};
+
+/**
+ * Gets the direction studied by a mode, cloze sentences are always filled with the learning word
+ * @param mode Way the cards are answered
+ * @param showKnownLanguage Whether the known language is shown first
+ * @returns The direction whose progress the session reads and updates
+ */
+export function getModeDirection(mode: StudyMode, showKnownLanguage: boolean): StudyDirection {
+  return mode === 'cloze' ? 'knownToLearning' : getStudyDirection(showKnownLanguage);
+}
+
+// Learning session data model, stored by card id so it can be resumed after a reload.
+// The last session is kept once completed so its summary survives a reload too.
+export interface PersistedSession {
+  sessionId: string;        // Unique identifier of the session
+  queueCardIds: string[];   // All cards of the session, in the order they are shown
+  stackCardIds: string[];   // Cards currently on the stack (bottom to top)
+  queueAttempts?: number[]; // Times each card of the queue was already shown, for the cards put back for relearning
+  stackAttempts?: number[]; // Times each card of the stack was already shown
+  discardedCards: {
+    id: string;
+    swipeDirection?: SwipeDirection;
+    outcome?: ReviewOutcome;
+    action?: CardAction;
+    review?: ReviewRecord;
+    requeuedAt?: number;
+    attempt?: number;
+  }[];                      // Cards already answered or set aside, in order
+  nextCardIndex: number;    // Index in the queue of the next card to put on the stack
+  showKnownLanguage: boolean; // Whether the known language is shown first
+  startedAt: string;        // ISO timestamp of the start of the session
+  completedAt?: string;     // ISO timestamp of the end of the session, once every card is answered
+  timeLimitMinutes?: number; // Duration after which the session ends, unlimited when missing
+  mode?: StudyMode;         // Way the cards are answered, to resume the session on its page, flip when missing
+  updatedAt: string;        // ISO timestamp of the last change
+}
+
+// Define the database
+class SessionDatabase extends Dexie {
+  // Define tables
+  sessions!: Table<PersistedSession, string>; // string is the type of the primary key
+
+  constructor() {
+    super('langDeckSessionDatabase');
+
+    // Define the schema
+    this.version(1).stores({
+      sessions: 'sessionId, updatedAt'
+    });
+  }
+}
+
+// Create a database instance
+const db = new SessionDatabase();
+
+/**
+ * Counts the cards left to answer in a session, a card put back for relearning counting once
+ * @param session The session
+ * @returns The number of distinct cards on the stack or still in the queue
+ */
+export function getRemainingCardCount(session: Pick<PersistedSession, 'queueCardIds' | 'stackCardIds' | 'nextCardIndex'>): number {
+  return new Set([...session.stackCardIds, ...session.queueCardIds.slice(session.nextCardIndex)]).size;
+}
+
+/**
+ * Saves the state of the current learning session, replacing any other unfinished session
+ * @param session The session to save
+ * @returns A promise that resolves when the operation is complete
+ */
+export async function saveSession(session: PersistedSession): Promise<void> {
+  try {
+    // We only keep one unfinished session
+    await db.transaction('rw', db.sessions, async () => {
+      await db.sessions.where('sessionId').notEqual(session.sessionId).delete();
+      await db.sessions.put(session);
+    });
+  } catch (error) {
+    console.error('Error saving session:', error);
+    throw new Error(`Failed to save session: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Retrieves the unfinished learning session, if any
+ * @returns A promise that resolves with the session or null if there is none
+ */
+export async function getActiveSession(): Promise<PersistedSession | null> {
+  try {
+    const session = await db.sessions.orderBy('updatedAt').last();
+    return session && !session.completedAt ? session : null;
+  } catch (error) {
+    console.error('Error getting active session:', error);
+    throw new Error(`Failed to get active session: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Retrieves a learning session, finished or not
+ * @param sessionId The id of the session
+ * @returns A promise that resolves with the session or null if it was not saved
+ */
+export async function getSession(sessionId: string): Promise<PersistedSession | null> {
+  try {
+    const session = await db.sessions.get(sessionId);
+    return session ?? null;
+  } catch (error) {
+    console.error('Error getting session:', error);
+    throw new Error(`Failed to get session: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
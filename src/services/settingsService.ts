@@ -1,9 +1,53 @@
 import Dexie, { Table } from 'dexie';
+import { SchedulerAlgorithm } from './schedulerService';
+import { SwipeDirection } from './cardService';
+import { StudyMode, SwipeAction } from './sessionService';
+import { DailyGoalType } from './goalService';
+import { MaturityState } from './maturityService';
+
+// When a session started from a preset ends: after some time, after some cards, or once every due card is studied
+export type SessionLimit =
+  | { type: 'minutes'; minutes: number }
+  | { type: 'cards'; count: number }
+  | { type: 'allDue' };
+
+// Named way of studying, started in one tap from the study page
+export interface SessionPreset {
+  id: string;
+  name: string;
+  tags: string[];                          // Tags studied, all tags when empty
+  maturityFilter: MaturityState | 'all';   // Maturity of the cards studied
+  showKnownLanguage: boolean;              // Whether the known language is shown first
+  mode: StudyMode;                         // Way the cards are answered
+  limit: SessionLimit;
+}
 
 // Settings data model
 export interface Settings {
   knownLanguage: string;
   learningLanguage: string;
+  schedulerAlgorithm: SchedulerAlgorithm;
+  relearnWrongCards: boolean;    // Show cards swiped wrong again later in the session
+  relearningDelay: number;       // Number of cards shown before a wrong card comes back
+  relearnRevisitCards: boolean;  // Show cards marked for revision again at the end of the session
+  voices: Record<string, string>; // Voice URI chosen for each language name, automatic when missing
+  autoPlayPronunciation: boolean; // Pronounce the answer when a card is flipped
+  swipeActions: Record<SwipeDirection, SwipeAction | null>; // Action of each swipe, null when disabled
+  mirrorSwipes: boolean;          // Swap the left and right swipes, for left-handed use
+  swipeThreshold: number;         // Distance in pixels a card must be dragged to be swiped
+  stackDepth: number;             // Number of cards stacked in learning sessions
+  accessibleMode: boolean;        // Study with buttons and screen reader announcements instead of gestures
+  reduceMotion: boolean;          // Show cards without flip and swipe animations
+  leechThreshold: number;         // Failures after which a card is a leech
+  suspendLeeches: boolean;        // Suspend the cards detected as leeches
+  trashRetentionDays: number;     // Days before deleted cards are purged from the trash, never when 0
+  dailyGoalType: DailyGoalType;   // Whether the daily goal counts reviews or new cards
+  dailyGoal: number;              // Number of reviews or new cards to study each day
+  dayRolloverHour: number;        // Hour at which a new study day starts, so late-night study counts for the day before
+  newCardsPerDay: number;         // Maximum number of cards studied for the first time each day
+  reviewsPerDay: number;          // Maximum number of cards already studied reviewed each day
+  maxSessionSize: number;         // Maximum number of cards in a session
+  sessionPresets: SessionPreset[]; // Presets shown on the study page
 }
 
 // Define the database
@@ -25,11 +69,82 @@ class SettingsDatabase extends Dexie {
 const db = new SettingsDatabase();
 
 // Default settings
-const DEFAULT_SETTINGS: Settings = {
+export const DEFAULT_SETTINGS: Settings = {
   knownLanguage: 'Français',
-  learningLanguage: 'Anglais'
+  learningLanguage: 'Anglais',
+  schedulerAlgorithm: 'sm2',
+  relearnWrongCards: true,
+  relearningDelay: 3,
+  relearnRevisitCards: true,
+  voices: {},
+  autoPlayPronunciation: false,
+  swipeActions: {
+    left: 'again',
+    right: 'good',
+    up: 'easy',
+    down: 'revisit'
+  },
+  mirrorSwipes: false,
+  swipeThreshold: 100,
+  stackDepth: 4,
+  accessibleMode: false,
+  reduceMotion: false,
+  leechThreshold: 8,
+  suspendLeeches: false,
+  trashRetentionDays: 30,
+  dailyGoalType: 'reviews',
+  dailyGoal: 20,
+  dayRolloverHour: 4,
+  newCardsPerDay: 20,
+  reviewsPerDay: 200,
+  maxSessionSize: 50,
+  sessionPresets: [
+    {
+      id: 'five-minutes',
+      name: '5 minutes',
+      tags: [],
+      maturityFilter: 'all',
+      showKnownLanguage: false,
+      mode: 'flip',
+      limit: { type: 'minutes', minutes: 5 }
+    },
+    {
+      id: 'twenty-cards',
+      name: '20 cards',
+      tags: [],
+      maturityFilter: 'all',
+      showKnownLanguage: false,
+      mode: 'flip',
+      limit: { type: 'cards', count: 20 }
+    },
+    {
+      id: 'all-due',
+      name: 'All due',
+      tags: [],
+      maturityFilter: 'all',
+      showKnownLanguage: false,
+      mode: 'flip',
+      limit: { type: 'allDue' }
+    }
+  ]
 };
 
+/**
+ * Returns the action of a swipe, taking the left-handed mirroring into account
+ * @param settings The gesture settings
+ * @param direction The direction of the swipe
+ * @returns The action, or null if the swipe is disabled
+ */
+export function getSwipeAction(
+  settings: Pick<Settings, 'swipeActions' | 'mirrorSwipes'>,
+  direction: SwipeDirection
+): SwipeAction | null {
+  if (settings.mirrorSwipes && (direction === 'left' || direction === 'right')) {
+    return settings.swipeActions[direction === 'left' ? 'right' : 'left'];
+  }
+  return settings.swipeActions[direction];
+}
+
 /**
  * Saves settings to the database
  * @param settings The settings object to save
@@ -61,7 +176,8 @@ export async function getSettings(): Promise<Settings | null> {
       return null;
     }
     
-    return settingsArray[0];
+    // Settings saved by older versions may miss newer fields
+    return { ...DEFAULT_SETTINGS, ...settingsArray[0] };
   } catch (error) {
     console.error('Error getting settings:', error);
     throw new Error(`Failed to get settings: ${error instanceof Error ? error.message : String(error)}`);
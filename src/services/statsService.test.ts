@@ -0,0 +1,53 @@
+import { IFlashCard, IReview, getNewCardDefaults } from './cardService';
+import { getReviewsPerDay, getStudyDayKey } from './statsService';
+
+const card = (id: string, overrides: Partial<IFlashCard> = {}): IFlashCard => ({
+  id,
+  known: 'chat',
+  learning: 'cat',
+  knownLanguage: 'Français',
+  learningLanguage: 'Anglais',
+  ...getNewCardDefaults(),
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const review = (cardId: string, reviewedAt: Date, overrides: Partial<IReview> = {}): IReview => ({
+  cardId,
+  outcome: 'correct',
+  reviewedAt: reviewedAt.toISOString(),
+  ...overrides
+});
+
+describe('getStudyDayKey', () => {
+  it('keeps the night before the rollover hour in the day before', () => {
+    expect(getStudyDayKey(new Date(2024, 2, 11, 3), 4)).toBe('2024-03-10');
+    expect(getStudyDayKey(new Date(2024, 2, 11, 4), 4)).toBe('2024-03-11');
+    expect(getStudyDayKey(new Date(2024, 2, 11, 0, 30), 0)).toBe('2024-03-11');
+  });
+});
+
+describe('getReviewsPerDay', () => {
+  it('counts the reviews by study day', () => {
+    const reviews = [
+      review('card', new Date(2024, 2, 10, 22)),
+      review('card', new Date(2024, 2, 11, 2)),
+      review('card', new Date(2024, 2, 11, 9)),
+      review('card', new Date(2024, 2, 11, 9, 1), { isRelearning: true })
+    ];
+
+    expect(getReviewsPerDay([card('card')], reviews, 4)).toEqual({ '2024-03-10': 2, '2024-03-11': 1 });
+    expect(getReviewsPerDay([card('card')], reviews, 0)).toEqual({ '2024-03-10': 1, '2024-03-11': 2 });
+  });
+
+  it('counts the answers of cards without history on the study day of their last review', () => {
+    const answeredCard = card('old-card', {
+      correctCount: 2,
+      wrongCount: 1,
+      lastReviewedAt: new Date(2024, 2, 11, 1).toISOString()
+    });
+
+    expect(getReviewsPerDay([answeredCard], [], 4)).toEqual({ '2024-03-10': 3 });
+  });
+});
@@ -0,0 +1,203 @@
+// Statistics computed from the cards and their review history
+import { IFlashCard, IReview, getAnswerCount, isCountedReview } from './cardService';
+import { MaturityState, MATURITY_STATES, getCardMaturityState } from './maturityService';
+
+// Number of answers and share of correct ones
+export interface Accuracy {
+  correct: number;
+  total: number;
+  accuracy: number;       // Between 0 and 1, 0 when there are no answers
+}
+
+// Accuracy of the cards sharing a tag or a language pair
+export interface GroupAccuracy extends Accuracy {
+  label: string;
+  cardCount: number;
+}
+
+// Accuracy of the reviews made during a week
+export interface WeeklyAccuracy extends Accuracy {
+  weekStart: string;      // Day key of the Monday starting the week
+}
+
+// Cards created during a week
+export interface WeeklyCount {
+  weekStart: string;      // Day key of the Monday starting the week
+  count: number;
+}
+
+/**
+ * Returns the key of the local day of a date
+ * @param date The date
+ * @returns The day as YYYY-MM-DD
+ */
+export function getDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Returns the study day a moment belongs to: before the rollover hour, it still counts for the day before
+ * @param date The moment
+ * @param rolloverHour The hour at which a new study day starts
+ * @returns The day key of the study day
+ */
+export function getStudyDayKey(date: Date, rolloverHour: number): string {
+  const shifted = new Date(date);
+  shifted.setHours(shifted.getHours() - rolloverHour);
+  return getDayKey(shifted);
+}
+
+/**
+ * Returns the start of the week of a date
+ * @param date The date
+ * @returns Midnight on the Monday of the week, local time
+ */
+export function getWeekStart(date: Date): Date {
+  const weekStart = new Date(date);
+  weekStart.setHours(0, 0, 0, 0);
+  // getDay() is 0 on Sunday, which ends the week
+  weekStart.setDate(weekStart.getDate() - (weekStart.getDay() + 6) % 7);
+  return weekStart;
+}
+
+/**
+ * Computes an accuracy from counts
+ * @param correct The number of correct answers
+ * @param total The number of answers
+ * @returns The accuracy
+ */
+export function getAccuracy(correct: number, total: number): Accuracy {
+  return { correct, total, accuracy: total > 0 ? correct / total : 0 };
+}
+
+/**
+ * Counts the cards in each maturity state
+ * @param cards The cards
+ * @returns The number of cards of each state
+ */
+export function getMaturityDistribution(cards: IFlashCard[]): Record<MaturityState, number> {
+  const distribution = Object.fromEntries(MATURITY_STATES.map(state => [state, 0])) as Record<MaturityState, number>;
+  cards.forEach(card => distribution[getCardMaturityState(card)]++);
+  return distribution;
+}
+
+/**
+ * Counts the reviews made each study day, like the daily goal. Cards answered before the review history was recorded
+ * have their answers counted on the day of their last activity.
+ * @param cards The cards
+ * @param reviews The review history
+ * @param rolloverHour The hour at which a new study day starts
+ * @returns The number of reviews by study day key
+ */
+export function getReviewsPerDay(cards: IFlashCard[], reviews: IReview[], rolloverHour: number): Record<string, number> {
+  const reviewsPerDay: Record<string, number> = {};
+  const loggedCardIds = new Set<string>();
+
+  reviews.filter(isCountedReview).forEach(review => {
+    const dayKey = getStudyDayKey(new Date(review.reviewedAt), rolloverHour);
+    reviewsPerDay[dayKey] = (reviewsPerDay[dayKey] || 0) + 1;
+    loggedCardIds.add(review.cardId);
+  });
+
+  cards
+    .filter(card => !loggedCardIds.has(card.id) && getAnswerCount(card) > 0)
+    .forEach(card => {
+      const dayKey = getStudyDayKey(new Date(card.lastReviewedAt ?? card.updatedAt), rolloverHour);
+      reviewsPerDay[dayKey] = (reviewsPerDay[dayKey] || 0) + getAnswerCount(card);
+    });
+
+  return reviewsPerDay;
+}
+
+/**
+ * Computes the accuracy of the reviews week by week
+ * @param reviews The review history
+ * @param weekCount The number of weeks to return, ending with the current one
+ * @param now The current time
+ * @returns The accuracy of each week, oldest first
+ */
+export function getWeeklyAccuracy(reviews: IReview[], weekCount: number, now: Date = new Date()): WeeklyAccuracy[] {
+  const weeks = getLastWeeks(weekCount, now);
+  const counts = new Map(weeks.map(weekStart => [weekStart, { correct: 0, total: 0 }]));
+
+  reviews.filter(isCountedReview).forEach(review => {
+    const week = counts.get(getDayKey(getWeekStart(new Date(review.reviewedAt))));
+    if (week) {
+      week.total++;
+      if (review.outcome === 'correct') {
+        week.correct++;
+      }
+    }
+  });
+
+  return weeks.map(weekStart => {
+    const { correct, total } = counts.get(weekStart)!;
+    return { weekStart, ...getAccuracy(correct, total) };
+  });
+}
+
+/**
+ * Counts the cards created week by week
+ * @param cards The cards
+ * @param weekCount The number of weeks to return, ending with the current one
+ * @param now The current time
+ * @returns The number of cards created each week, oldest first
+ */
+export function getCardsAddedPerWeek(cards: IFlashCard[], weekCount: number, now: Date = new Date()): WeeklyCount[] {
+  const weeks = getLastWeeks(weekCount, now);
+  const counts = new Map(weeks.map(weekStart => [weekStart, 0]));
+
+  cards.forEach(card => {
+    const weekStart = getDayKey(getWeekStart(new Date(card.createdAt)));
+    if (counts.has(weekStart)) {
+      counts.set(weekStart, counts.get(weekStart)! + 1);
+    }
+  });
+
+  return weeks.map(weekStart => ({ weekStart, count: counts.get(weekStart)! }));
+}
+
+/**
+ * Computes the accuracy of groups of cards from their counters
+ * @param cards The cards
+ * @param getGroups Returns the labels of the groups a card belongs to
+ * @returns The accuracy of each group with answers, the least accurate first
+ */
+export function getAccuracyByGroup(
+  cards: IFlashCard[],
+  getGroups: (card: IFlashCard) => string[]
+): GroupAccuracy[] {
+  const groups = new Map<string, { cardCount: number; correct: number; total: number }>();
+
+  cards.forEach(card => {
+    getGroups(card).forEach(label => {
+      const group = groups.get(label) ?? { cardCount: 0, correct: 0, total: 0 };
+      group.cardCount++;
+      group.correct += card.correctCount;
+      group.total += getAnswerCount(card);
+      groups.set(label, group);
+    });
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, group]) => group.total > 0)
+    .map(([label, { cardCount, correct, total }]) => ({ label, cardCount, ...getAccuracy(correct, total) }))
+    .sort((a, b) => a.accuracy - b.accuracy);
+}
+
+/**
+ * Returns the day keys of the Mondays starting the last weeks
+ * @param weekCount The number of weeks
+ * @param now The current time
+ * @returns The day keys, oldest first
+ */
+function getLastWeeks(weekCount: number, now: Date): string[] {
+  return Array.from({ length: weekCount }, (_, index) => {
+    // Move by calendar days rather than milliseconds so weeks across a DST change still start on Monday
+    const weekStart = getWeekStart(now);
+    weekStart.setDate(weekStart.getDate() + (index - weekCount + 1) * 7);
+    return getDayKey(weekStart);
+  });
+}